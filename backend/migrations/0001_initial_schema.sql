@@ -0,0 +1,64 @@
+-- Schema as previously created by initDatabase, plus indexes for the per-user and per-session lookups.
+-- Every statement is guarded so databases set up before migrations existed are adopted as-is.
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  username VARCHAR(50) UNIQUE NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Accounts created before passwords existed have a NULL hash and can't log in until `npm run set-password` gives them one
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash TEXT;
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  title VARCHAR(100) DEFAULT 'New Chat',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS model VARCHAR(100);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS system_prompt TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS temperature REAL;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS max_tokens INTEGER;
+
+CREATE TABLE IF NOT EXISTS messages (
+  id SERIAL PRIMARY KEY,
+  session_id INTEGER REFERENCES sessions(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS active_message_id INTEGER REFERENCES messages(id) ON DELETE SET NULL;
+
+-- Sessions from before branching are flat lists: chain each message to the previous one
+UPDATE messages m SET parent_id = p.prev_id FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY session_id ORDER BY created_at, id) AS prev_id FROM messages
+  WHERE session_id IN (SELECT id FROM sessions WHERE active_message_id IS NULL)
+) p WHERE m.id = p.id AND m.parent_id IS NULL AND p.prev_id IS NOT NULL;
+UPDATE sessions s SET active_message_id = (
+  SELECT id FROM messages WHERE session_id = s.id ORDER BY created_at DESC, id DESC LIMIT 1
+) WHERE active_message_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS session_summaries (
+  session_id INTEGER PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL,
+  through_message_id INTEGER NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS messages_session_id_idx ON messages (session_id, id);
+
+-- Full-text search indexes (expressions must match the ones in searchUserContent)
+CREATE INDEX IF NOT EXISTS messages_content_fts_idx ON messages USING GIN (to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS sessions_title_fts_idx ON sessions USING GIN (to_tsvector('english', title));
+
+-- migrate:down
+DROP TABLE IF EXISTS session_summaries;
+DROP TABLE IF EXISTS messages CASCADE;
+DROP TABLE IF EXISTS sessions CASCADE;
+DROP TABLE IF EXISTS users CASCADE;
@@ -0,0 +1,7 @@
+-- Branch pages look up each message's siblings by parent_id
+
+-- migrate:up
+CREATE INDEX IF NOT EXISTS messages_parent_id_idx ON messages (parent_id);
+
+-- migrate:down
+DROP INDEX IF EXISTS messages_parent_id_idx;
@@ -0,0 +1,19 @@
+-- One row per LLM call (chat replies and context summaries) for usage readouts and daily token quotas
+
+-- migrate:up
+CREATE TABLE usage (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_id INTEGER REFERENCES sessions(id) ON DELETE SET NULL,
+  model VARCHAR(100) NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX usage_user_id_idx ON usage (user_id, created_at);
+
+-- migrate:down
+DROP TABLE IF EXISTS usage;
@@ -0,0 +1,21 @@
+-- Files attached to user messages, with their extracted text for the prompt
+
+-- migrate:up
+CREATE TABLE attachments (
+  id SERIAL PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  -- NULL between the upload and sending the message it belongs to
+  message_id INTEGER REFERENCES messages(id) ON DELETE CASCADE,
+  filename VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size INTEGER NOT NULL,
+  content BYTEA NOT NULL,
+  text TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX attachments_message_id_idx ON attachments (message_id);
+CREATE INDEX attachments_session_id_idx ON attachments (session_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS attachments;
@@ -0,0 +1,42 @@
+-- Per-user document library for retrieval: chunked text with one embedding per chunk
+
+-- migrate:up
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE documents (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filename VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size INTEGER NOT NULL,
+  chunk_count INTEGER NOT NULL,
+  -- <provider>:<model> that embedded the chunks; only chunks from the active model are searched
+  embedding_model VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX documents_user_id_idx ON documents (user_id);
+
+-- No dimension on the column: it depends on the embedding model, so searches are exact scans of the user's chunks
+CREATE TABLE document_chunks (
+  id SERIAL PRIMARY KEY,
+  document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding vector NOT NULL
+);
+
+CREATE INDEX document_chunks_user_id_idx ON document_chunks (user_id);
+CREATE INDEX document_chunks_document_id_idx ON document_chunks (document_id);
+
+ALTER TABLE sessions ADD COLUMN retrieval_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Library excerpts an assistant reply drew on
+ALTER TABLE messages ADD COLUMN citations JSONB;
+
+-- migrate:down
+ALTER TABLE messages DROP COLUMN IF EXISTS citations;
+ALTER TABLE sessions DROP COLUMN IF EXISTS retrieval_enabled;
+DROP TABLE IF EXISTS document_chunks;
+DROP TABLE IF EXISTS documents;
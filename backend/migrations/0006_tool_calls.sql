@@ -0,0 +1,8 @@
+-- Tool calls made while generating a reply, saved as messages with role 'tool'
+
+-- migrate:up
+ALTER TABLE messages ADD COLUMN tool_call JSONB;
+
+-- migrate:down
+DELETE FROM messages WHERE role = 'tool';
+ALTER TABLE messages DROP COLUMN IF EXISTS tool_call;
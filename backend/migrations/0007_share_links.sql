@@ -0,0 +1,20 @@
+-- Read-only share links: each one holds a frozen copy of the session's selected branch
+
+-- migrate:up
+CREATE TABLE share_links (
+  id SERIAL PRIMARY KEY,
+  -- Unguessable id used in the public URL
+  token VARCHAR(64) NOT NULL UNIQUE,
+  session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  messages JSONB NOT NULL,
+  -- NULL for links that don't expire
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX share_links_user_id_idx ON share_links (user_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS share_links;
@@ -0,0 +1,7 @@
+-- Chats the user renamed keep their title; automatic titles only replace ones the app chose
+
+-- migrate:up
+ALTER TABLE sessions ADD COLUMN title_edited BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- migrate:down
+ALTER TABLE sessions DROP COLUMN IF EXISTS title_edited;
@@ -0,0 +1,44 @@
+-- Organizing chats: user-defined folders and tags, pinned chats and archived chats
+
+-- migrate:up
+CREATE TABLE folders (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX folders_user_id_name_idx ON folders (user_id, lower(name));
+
+CREATE TABLE tags (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX tags_user_id_name_idx ON tags (user_id, lower(name));
+
+CREATE TABLE session_tags (
+  session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (session_id, tag_id)
+);
+
+CREATE INDEX session_tags_tag_id_idx ON session_tags (tag_id);
+
+-- Deleting a folder moves its chats back to the top level
+ALTER TABLE sessions ADD COLUMN folder_id INTEGER REFERENCES folders(id) ON DELETE SET NULL;
+ALTER TABLE sessions ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE sessions ADD COLUMN archived BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX sessions_user_id_order_idx ON sessions (user_id, archived, pinned DESC, created_at DESC, id DESC);
+
+-- migrate:down
+DROP INDEX IF EXISTS sessions_user_id_order_idx;
+ALTER TABLE sessions DROP COLUMN IF EXISTS archived;
+ALTER TABLE sessions DROP COLUMN IF EXISTS pinned;
+ALTER TABLE sessions DROP COLUMN IF EXISTS folder_id;
+DROP TABLE IF EXISTS session_tags;
+DROP TABLE IF EXISTS tags;
+DROP TABLE IF EXISTS folders;
@@ -0,0 +1,17 @@
+-- Reusable prompts, run from the composer as /<name>; {{variable}} placeholders are filled in when used
+
+-- migrate:up
+CREATE TABLE prompt_templates (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  description VARCHAR(200) NOT NULL DEFAULT '',
+  content TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX prompt_templates_user_id_name_idx ON prompt_templates (user_id, lower(name));
+
+-- migrate:down
+DROP TABLE IF EXISTS prompt_templates;
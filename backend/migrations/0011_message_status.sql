@@ -0,0 +1,9 @@
+-- Replies that were stopped while streaming or failed keep a record of the turn, so they can be retried
+
+-- migrate:up
+ALTER TABLE messages ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'complete';
+ALTER TABLE messages ADD COLUMN error TEXT;
+
+-- migrate:down
+ALTER TABLE messages DROP COLUMN IF EXISTS error;
+ALTER TABLE messages DROP COLUMN IF EXISTS status;
@@ -0,0 +1,7 @@
+-- The model that wrote each reply, which differs from the session's model when a fallback answered
+
+-- migrate:up
+ALTER TABLE messages ADD COLUMN model VARCHAR(200);
+
+-- migrate:down
+ALTER TABLE messages DROP COLUMN IF EXISTS model;
@@ -0,0 +1,24 @@
+-- Admin role, disabled accounts, and an audit log of every change an admin makes
+-- Audit entries copy usernames and keep ids without foreign keys, so they outlive deleted accounts
+
+-- migrate:up
+ALTER TABLE users ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'user';
+ALTER TABLE users ADD COLUMN disabled_at TIMESTAMP;
+
+CREATE TABLE admin_audit_log (
+  id SERIAL PRIMARY KEY,
+  admin_id INTEGER,
+  admin_username VARCHAR(50) NOT NULL,
+  action VARCHAR(50) NOT NULL,
+  target_user_id INTEGER,
+  target_username VARCHAR(50),
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX admin_audit_log_target_idx ON admin_audit_log (target_user_id, id);
+
+-- migrate:down
+DROP TABLE IF EXISTS admin_audit_log;
+ALTER TABLE users DROP COLUMN IF EXISTS disabled_at;
+ALTER TABLE users DROP COLUMN IF EXISTS role;
@@ -1,29 +1,240 @@
-import { createOpenAI } from '@ai-sdk/openai';
-import { generateText } from 'ai';
-import type { Message } from './db.js';
+import { generateText, streamText, type CoreMessage } from 'ai';
+import type { Message, RetrievedChunk, Session, SessionSettings, ToolCall } from './db.js';
+import { estimateTokens, type ChatContext } from './context.js';
+import { getActiveProvider, clampSettings } from './providers.js';
+import { modelChain, withFailover, type ModelTarget } from './failover.js';
+import { UpstreamError } from './errors.js';
+import { recordGeneration } from './usage.js';
+import { toolsForSession, maxToolSteps, toToolCall } from './tools.js';
 
 // dotenv is configured in index.ts
 
-// Initialize OpenRouter client (OpenAI-compatible)
-const openrouter = createOpenAI({
-    baseURL: 'https://openrouter.ai/api/v1',
-    apiKey: process.env.OPENROUTER_API_KEY!,
-});
-
-// Uses AI SDK to generate response from chat history
-export async function generateAIResponse(userMessage: string, history: Message[]): Promise<string> {
-    const messages = [
-        { role: 'system' as const, content: 'You are a helpful, friendly AI assistant. Keep responses concise.' },
-        ...history.map((msg) => ({ role: msg.role as 'user' | 'assistant', content: msg.content })),
-        { role: 'user' as const, content: userMessage }
+// Used when a session leaves the setting unset
+export const DEFAULT_SYSTEM_PROMPT = 'You are a helpful, friendly AI assistant. Keep responses concise.';
+export const DEFAULT_MAX_TOKENS = 500;
+export const DEFAULT_TEMPERATURE = 0.7;
+
+// Numbered library excerpts, with instructions to cite them by number
+function sourcesPrompt(sources: RetrievedChunk[]): string {
+    const excerpts = sources.map((source, i) => `[${i + 1}] ${source.filename}\n${source.content}`);
+    return 'Excerpts from the user\'s documents that may help with their next message. '
+        + 'When you use one, cite it with its number in square brackets, e.g. [1]. Ignore excerpts that are not relevant.\n\n'
+        + excerpts.join('\n\n');
+}
+
+// Saved reply text when the model used up its steps on tool calls without answering
+const NO_ANSWER_TEXT = '_(No answer: the assistant used all of its tool steps.)_';
+
+// A generated reply, the tool calls made while writing it (in order), and the model that answered
+export interface AIReply {
+    text: string;
+    toolCalls: ToolCall[];
+    model: string;
+}
+
+// What streamAIResponse yields: the model that answered (first), reply text as it arrives,
+// and each tool call once it has its result
+export type AIStreamEvent = { type: 'model'; model: string } | { type: 'text'; text: string } | { type: 'tool'; call: ToolCall };
+
+// A saved tool message as the call/result pair the model produced
+function toolHistory(msg: Message): CoreMessage[] {
+    const call = msg.tool_call!;
+    return [
+        { role: 'assistant', content: [{ type: 'tool-call', toolCallId: call.id, toolName: call.name, args: call.args }] },
+        { role: 'tool', content: [{ type: 'tool-result', toolCallId: call.id, toolName: call.name, result: call.error !== null ? { error: call.error } : call.result }] },
     ];
+}
+
+// Failed replies, and stopped ones that never got any text, aren't part of the conversation the model sees
+function isUnanswered(msg: Message): boolean {
+    return msg.role === 'assistant' && (msg.status === 'failed' || msg.content.trim() === '');
+}
 
-    const { text } = await generateText({
-        model: openrouter('mistralai/mistral-7b-instruct:free'),
-        messages,
-        maxTokens: 500,
-        temperature: 0.7,
-    });
+// Builds the prompt: system message, summary of older turns, library excerpts, recent history, then the new user message
+// Earlier tool calls are only replayed when tools are enabled, since models without tools may reject them
+function buildMessages(context: ChatContext, settings: SessionSettings, withTools: boolean): CoreMessage[] {
+    return [
+        { role: 'system' as const, content: settings.system_prompt ?? DEFAULT_SYSTEM_PROMPT },
+        ...(context.summary
+            ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${context.summary}` }]
+            : []),
+        ...(context.sources.length > 0 ? [{ role: 'system' as const, content: sourcesPrompt(context.sources) }] : []),
+        ...context.messages.flatMap((msg): CoreMessage[] => {
+            if (isUnanswered(msg)) return [];
+            if (msg.role !== 'tool') return [{ role: msg.role, content: msg.content }];
+            return withTools && msg.tool_call ? toolHistory(msg) : [];
+        }),
+        { role: 'user' as const, content: context.prompt }
+    ];
+}
+
+// Model and generation settings for one target of the session's model chain
+// The SDK's own retries are off: withFailover retries, then moves on to the next target
+function modelSettings(target: ModelTarget, settings: SessionSettings) {
+    return {
+        model: target.provider.languageModel(target.modelId),
+        ...clampSettings(target.provider, {
+            maxTokens: settings.max_tokens ?? DEFAULT_MAX_TOKENS,
+            temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+        }),
+        maxRetries: 0,
+    };
+}
+
+// Models, limits and defaults the settings panel can offer
+export function getModelOptions() {
+    const provider = getActiveProvider();
+    return {
+        provider: provider.id,
+        models: provider.models,
+        limits: provider.limits,
+        defaults: {
+            model: process.env.LLM_MODEL || provider.models[0],
+            system_prompt: DEFAULT_SYSTEM_PROMPT,
+            temperature: DEFAULT_TEMPERATURE,
+            max_tokens: DEFAULT_MAX_TOKENS,
+        },
+    };
+}
+
+// Uses AI SDK to generate a reply, letting the model call tools for up to maxToolSteps() steps
+// The session's model chain is tried in order (see withFailover); token usage is recorded against the session's owner
+// Aborting `signal` cancels the provider request
+export async function generateAIResponse(context: ChatContext, session: Session, signal?: AbortSignal): Promise<AIReply> {
+    try {
+        const tools = toolsForSession(session);
+        const messages = buildMessages(context, session, Boolean(tools));
+        const startedAt = Date.now();
+        const { result: { text, steps, usage }, target } = await withFailover(modelChain(session.model), signal, (target, attemptSignal) =>
+            generateText({
+                ...modelSettings(target, session),
+                abortSignal: attemptSignal,
+                tools,
+                maxSteps: tools ? maxToolSteps() : 1,
+                messages,
+            }));
+        await recordGeneration(session, 'chat', target.modelId, usage, startedAt);
+        const toolCalls = steps.flatMap((step) => step.toolResults.map(toToolCall));
+        return { text: text || (toolCalls.length > 0 ? NO_ANSWER_TEXT : ''), toolCalls, model: target.modelId };
+    } catch (error) {
+        throw error instanceof UpstreamError ? error : new UpstreamError(undefined, error);
+    }
+}
+
+// Same as generateAIResponse, but yields text deltas and finished tool calls as they happen
+// Failover only covers the start of the stream: once a model has produced output, its errors end the reply
+export async function* streamAIResponse(context: ChatContext, session: Session, signal?: AbortSignal): AsyncIterable<AIStreamEvent> {
+    try {
+        const tools = toolsForSession(session);
+        const messages = buildMessages(context, session, Boolean(tools));
+        const startedAt = Date.now();
+        const { result: { result, parts, first }, target } = await withFailover(modelChain(session.model), signal, async (target, attemptSignal) => {
+            const result = await streamText({
+                ...modelSettings(target, session),
+                abortSignal: attemptSignal,
+                tools,
+                maxSteps: tools ? maxToolSteps() : 1,
+                messages,
+            });
+            // Provider errors (outages, rate limits) arrive as the first part, so wait for it before committing to this model
+            const parts = result.fullStream[Symbol.asyncIterator]();
+            const first = await parts.next();
+            if (!first.done && first.value.type === 'error') throw first.value.error;
+            return { result, parts, first };
+        });
+        yield { type: 'model', model: target.modelId };
+        let streamed = '';
+        let usage: Awaited<typeof result.usage> | null = null;
+        try {
+            let answered = false;
+            let calledTools = false;
+            for (let next = first; !next.done; next = await parts.next()) {
+                const part = next.value;
+                if (part.type === 'text-delta') {
+                    streamed += part.textDelta;
+                    answered ||= part.textDelta.trim().length > 0;
+                    yield { type: 'text', text: part.textDelta };
+                } else if (part.type === 'tool-result') {
+                    calledTools = true;
+                    yield { type: 'tool', call: toToolCall(part) };
+                } else if (part.type === 'error') {
+                    throw part.error;
+                }
+            }
+            // Some providers just end the stream when the request is aborted
+            signal?.throwIfAborted();
+            if (calledTools && !answered) yield { type: 'text', text: NO_ANSWER_TEXT };
+            usage = await result.usage;
+        } finally {
+            // A stopped or failed reply still cost tokens, but the provider never reports them, so they are estimated
+            await recordGeneration(session, 'chat', target.modelId, usage ?? {
+                promptTokens: estimateTokens({ content: JSON.stringify(messages) }),
+                completionTokens: estimateTokens({ content: streamed }),
+            }, startedAt);
+        }
+    } catch (error) {
+        throw error instanceof UpstreamError ? error : new UpstreamError(undefined, error);
+    }
+}
+
+// Extends a rolling conversation summary with messages that fell out of the context window
+export async function summarizeMessages(previousSummary: string | null, messages: Message[], session: Session): Promise<string> {
+    const transcript = messages.filter((msg) => !isUnanswered(msg)).map((msg) => `${transcriptLabel(msg)}: ${msg.content}`).join('\n\n');
+    const settings = { ...session, temperature: 0, max_tokens: 300 };
+    const startedAt = Date.now();
+    const { result: { text, usage }, target } = await withFailover(modelChain(session.model), undefined, (target, signal) => generateText({
+        ...modelSettings(target, settings),
+        abortSignal: signal,
+        messages: [
+            {
+                role: 'system',
+                content: 'You maintain a running summary of a conversation. Merge the new messages into the existing summary. '
+                    + 'Keep facts, decisions, names and open questions; drop small talk. Reply with the updated summary only.',
+            },
+            {
+                role: 'user',
+                content: `Existing summary:\n${previousSummary ?? '(none yet)'}\n\nNew messages:\n${transcript}`,
+            },
+        ],
+    }));
+    await recordGeneration(session, 'summary', target.modelId, usage, startedAt);
+
+    return text.trim();
+}
+
+// Longest title kept from the model (the session title column holds 100 characters)
+const MAX_TITLE_LENGTH = 80;
+
+// Names a chat after its first exchange; returns '' when the model gave nothing usable
+export async function generateTitle(session: Session, userText: string, replyText: string): Promise<string> {
+    const settings = { ...session, temperature: 0.2, max_tokens: 20 };
+    const startedAt = Date.now();
+    const { result: { text, usage }, target } = await withFailover(modelChain(session.model), undefined, (target, signal) => generateText({
+        ...modelSettings(target, settings),
+        abortSignal: signal,
+        messages: [
+            {
+                role: 'system',
+                content: 'Write a short title (at most 6 words) for the conversation below. '
+                    + 'Use the language of the conversation. Reply with the title only, without quotes or punctuation at the end.',
+            },
+            {
+                role: 'user',
+                content: `User: ${userText.slice(0, 2000)}\n\nAssistant: ${replyText.slice(0, 2000)}`,
+            },
+        ],
+    }));
+    await recordGeneration(session, 'title', target.modelId, usage, startedAt);
+
+    // Models often add a "Title:" prefix, quotes or a trailing period anyway
+    const title = (text.trim().split('\n')[0] ?? '')
+        .replace(/^title:\s*/i, '')
+        .replace(/^["'“”*#\s]+|["'“”*.\s]+$/g, '')
+        .replace(/\s+/g, ' ');
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
 
-    return text;
+function transcriptLabel(msg: Message): string {
+    if (msg.role === 'tool') return `Tool ${msg.tool_call?.name ?? ''}`.trim();
+    return msg.role === 'user' ? 'User' : 'Assistant';
 }
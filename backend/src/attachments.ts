@@ -0,0 +1,65 @@
+import path from 'path';
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf';
+import { getAttachmentTexts, type Message } from './db.js';
+import { ValidationError } from './errors.js';
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Extracted text kept per file; prompts only use a budget-sized slice of it
+const MAX_STORED_TEXT = 500_000;
+
+const MIME_TYPES: Record<string, string> = {
+    '.pdf': 'application/pdf',
+    '.md': 'text/markdown',
+    '.markdown': 'text/markdown',
+    '.csv': 'text/csv',
+    '.json': 'application/json',
+};
+
+// Content type for a stored file, from its extension (anything that isn't listed is plain text)
+export function mimeTypeFor(filename: string): string {
+    return MIME_TYPES[path.extname(filename).toLowerCase()] ?? 'text/plain';
+}
+
+// Extracts the text of an upload: PDFs are parsed, anything else must be UTF-8 text (Markdown, CSV, code, logs...)
+export async function extractText(filename: string, content: Buffer): Promise<string> {
+    let text: string;
+    if (mimeTypeFor(filename) === 'application/pdf') {
+        try {
+            const pdf = await getDocumentProxy(new Uint8Array(content));
+            text = (await extractPdfText(pdf, { mergePages: true })).text;
+        } catch {
+            throw new ValidationError('Could not read this PDF');
+        }
+    } else {
+        try {
+            if (content.includes(0)) throw new Error('binary');
+            text = new TextDecoder('utf-8', { fatal: true }).decode(content);
+        } catch {
+            throw new ValidationError('Only text, Markdown, code, CSV and PDF files can be attached');
+        }
+    }
+    return text.slice(0, MAX_STORED_TEXT);
+}
+
+// Returns copies of the messages with their attachments appended to the content, for the prompt
+// Each message's files share at most maxChars; longer text is cut off with a note
+export async function withAttachments<T extends Message>(messages: T[], maxChars: number): Promise<T[]> {
+    const userIds = messages.filter((msg) => msg.role === 'user').map((msg) => msg.id);
+    const files = userIds.length > 0 ? await getAttachmentTexts(userIds) : [];
+    if (files.length === 0) return messages;
+
+    return messages.map((msg) => {
+        const attached = files.filter((file) => file.message_id === msg.id);
+        if (attached.length === 0) return msg;
+
+        const share = Math.floor(maxChars / attached.length);
+        const blocks = attached.map((file) => {
+            const text = file.text.length > share
+                ? `${file.text.slice(0, share)}\n[... ${file.text.length - share} more characters not shown]`
+                : file.text;
+            return `--- Attached file: ${file.filename} ---\n${text || '(no text could be extracted)'}\n--- End of ${file.filename} ---`;
+        });
+        return { ...msg, content: [msg.content, ...blocks].join('\n\n') };
+    });
+}
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import type { NextFunction, Request, Response } from 'express';
+import { getUserById, getUserByUsername, setUserRole, type User } from './db.js';
+import { AuthError, ForbiddenError } from './errors.js';
+
+// dotenv is configured in index.ts
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: User;
+        }
+    }
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Without AUTH_SECRET tokens are signed with a random key and stop working after a restart
+const AUTH_SECRET = process.env.AUTH_SECRET || (() => {
+    console.warn('⚠️  AUTH_SECRET is not set, using a random secret (sessions will not survive restarts)');
+    return crypto.randomBytes(32).toString('hex');
+})();
+
+// Hashes a password as "scrypt$<salt>$<hash>"
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, 64);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+// Checks a password against a stored hash in constant time
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = stored.split('$');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+function sign(payload: string): string {
+    return crypto.createHmac('sha256', AUTH_SECRET).update(payload).digest('base64url');
+}
+
+// Issues a signed token: base64url(JSON payload).signature
+export function createToken(userId: number): string {
+    const payload = Buffer.from(JSON.stringify({
+        sub: userId,
+        exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+    })).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+}
+
+// Returns the user id from a valid, unexpired token, or null
+export function verifyToken(token: string): number | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+    try {
+        const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        if (typeof sub !== 'number' || typeof exp !== 'number' || exp < Date.now() / 1000) return null;
+        return sub;
+    } catch {
+        return null;
+    }
+}
+
+// Resolves the caller from the "Authorization: Bearer <token>" header into req.user
+export async function requireAuth(req: Request, _res: Response, next: NextFunction) {
+    const header = req.headers.authorization;
+    const userId = header?.startsWith('Bearer ') ? verifyToken(header.slice(7)) : null;
+    if (userId === null) return next(new AuthError());
+
+    try {
+        const user = await getUserById(userId);
+        if (!user) return next(new AuthError());
+        if (user.disabled_at) return next(new AuthError('This account has been disabled'));
+        req.user = user;
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+// Lets only admins through; runs after requireAuth
+export function requireAdmin(req: Request, _res: Response, next: NextFunction) {
+    next(req.user?.role === 'admin' ? undefined : new ForbiddenError('Only admins can do this'));
+}
+
+// Usernames listed in ADMIN_USERNAMES (comma-separated) get the admin role, so a deployment can have its first admin
+function configuredAdmins(): string[] {
+    return (process.env.ADMIN_USERNAMES ?? '').split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+}
+
+// Whether a new account should start out as an admin
+export function isConfiguredAdmin(username: string): boolean {
+    return configuredAdmins().includes(username);
+}
+
+// Gives the admin role to the ADMIN_USERNAMES accounts that already exist (run at startup)
+export async function grantConfiguredAdmins(): Promise<void> {
+    for (const username of configuredAdmins()) {
+        const user = await getUserByUsername(username);
+        if (user && user.role !== 'admin') {
+            await setUserRole(user.id, 'admin');
+            console.log(`👑 ${username} is now an admin`);
+        }
+    }
+}
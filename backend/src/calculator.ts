@@ -0,0 +1,128 @@
+// Arithmetic for the calculator tool, parsed by hand so model input is never run as code
+// Supports + - * / % ^, parentheses, unary minus, constants (pi, e) and common functions
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+    log2: Math.log2,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/giy;
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (TOKEN_PATTERN.lastIndex < expression.length) {
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(expression);
+        if (!match) {
+            if (expression.slice(start).trim() === '') break;
+            throw new Error(`Unexpected character "${expression.slice(start).trim()[0]}"`);
+        }
+        if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+        else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+        else tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    }
+    return tokens;
+}
+
+// Evaluates an arithmetic expression, throwing an Error that explains what is wrong with it
+export function evaluateExpression(expression: string): number {
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+    const expect = (value: string) => {
+        if (!isOp(value)) throw new Error(`Expected "${value}"`);
+        position++;
+    };
+
+    // expression := term (("+" | "-") term)*
+    function parseExpression(): number {
+        let value = parseTerm();
+        while (isOp('+') || isOp('-')) {
+            const op = tokens[position++].value;
+            const right = parseTerm();
+            value = op === '+' ? value + right : value - right;
+        }
+        return value;
+    }
+
+    // term := unary (("*" | "/" | "%") unary)*
+    function parseTerm(): number {
+        let value = parseUnary();
+        while (isOp('*') || isOp('/') || isOp('%')) {
+            const op = tokens[position++].value;
+            const right = parseUnary();
+            value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+        }
+        return value;
+    }
+
+    // unary := ("-" | "+") unary | power
+    function parseUnary(): number {
+        if (isOp('-')) {
+            position++;
+            return -parseUnary();
+        }
+        if (isOp('+')) {
+            position++;
+            return parseUnary();
+        }
+        return parsePower();
+    }
+
+    // power := primary ("^" unary)?   (right-associative, so 2^3^2 = 2^9)
+    function parsePower(): number {
+        const base = parsePrimary();
+        if (!isOp('^')) return base;
+        position++;
+        return base ** parseUnary();
+    }
+
+    // primary := number | constant | function "(" expression ")" | "(" expression ")"
+    function parsePrimary(): number {
+        const token = tokens[position++];
+        if (!token) throw new Error('Unexpected end of expression');
+        if (token.type === 'number') return token.value;
+        if (token.type === 'name') {
+            if (token.value in CONSTANTS) return CONSTANTS[token.value];
+            const fn = FUNCTIONS[token.value];
+            if (!fn) throw new Error(`Unknown function or constant "${token.value}"`);
+            expect('(');
+            const argument = parseExpression();
+            expect(')');
+            return fn(argument);
+        }
+        if (token.value === '(') {
+            const value = parseExpression();
+            expect(')');
+            return value;
+        }
+        throw new Error(`Unexpected "${token.value}"`);
+    }
+
+    if (tokens.length === 0) throw new Error('Expression is empty');
+    const result = parseExpression();
+    if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`);
+    if (!Number.isFinite(result)) throw new Error('The result is not a finite number');
+    return result;
+}
@@ -0,0 +1,68 @@
+import { getSessionSummary, saveSessionSummary, type Message, type RetrievedChunk, type Session } from './db.js';
+import { summarizeMessages } from './ai.js';
+import { withAttachments } from './attachments.js';
+import { retrieveChunks } from './retrieval.js';
+
+// dotenv is configured in index.ts
+
+// History that fits the token budget, plus a summary of everything older
+export interface ChatContext {
+    summary: string | null;
+    messages: Message[];
+    // The new user turn, with its attachments inlined
+    prompt: string;
+    // Library excerpts for the new turn (sessions with retrieval enabled), numbered [1], [2]... in the prompt
+    sources: RetrievedChunk[];
+}
+
+// Rough token estimate (~4 characters per token plus per-message overhead)
+export function estimateTokens(message: Pick<Message, 'content'>): number {
+    return Math.ceil(message.content.length / 4) + 4;
+}
+
+function tokenBudget(): number {
+    return parseInt(process.env.CONTEXT_TOKEN_BUDGET || '') || 3000;
+}
+
+// Keeps the newest messages that fit the budget (including the new user message)
+// and folds anything dropped into the session's rolling summary
+// Attached files are inlined into their messages, each message's files using at most 60% of the budget
+// Library excerpts retrieved for the new message come out of the budget before older history
+export async function buildContext(session: Session, savedHistory: Message[], userMessage: Message): Promise<ChatContext> {
+    const [current, ...history] = await withAttachments([userMessage, ...savedHistory], tokenBudget() * 4 * 0.6);
+    const prompt = current.content;
+    const sources = session.retrieval_enabled ? await retrieveChunks(session.user_id, userMessage.content) : [];
+    let remaining = tokenBudget() - estimateTokens({ content: prompt })
+        - sources.reduce((total, source) => total + estimateTokens(source), 0);
+    let firstKept = history.length;
+    while (firstKept > 0 && remaining - estimateTokens(history[firstKept - 1]) >= 0) {
+        remaining -= estimateTokens(history[firstKept - 1]);
+        firstKept--;
+    }
+
+    const dropped = history.slice(0, firstKept);
+    let messages = history.slice(firstKept);
+    if (dropped.length === 0) return { summary: null, messages, prompt, sources };
+
+    // A summary built on another branch doesn't apply here; start over from this branch
+    const stored = await getSessionSummary(session.id);
+    const existing = stored && history.some((msg) => msg.id === stored.through_message_id) ? stored : null;
+    let summary = existing?.summary ?? null;
+    const throughId = existing?.through_message_id ?? 0;
+
+    // Only summarize messages the stored summary doesn't cover yet
+    const unsummarized = dropped.filter((msg) => msg.id > throughId);
+    if (unsummarized.length > 0) {
+        try {
+            summary = await summarizeMessages(summary, unsummarized, session);
+            await saveSessionSummary(session.id, summary, unsummarized[unsummarized.length - 1].id);
+        } catch (error) {
+            // Carry on with the older summary; the next turn will try again
+            console.error('Summary update failed:', error);
+        }
+    }
+
+    // If the summary already covers some kept messages (e.g. the budget grew), don't repeat them
+    messages = messages.filter((msg) => msg.id > throughId);
+    return { summary, messages, prompt, sources };
+}
@@ -1,99 +1,135 @@
-import { neon } from '@neondatabase/serverless';
 import dotenv from 'dotenv';
+import { createPostgresStore } from './postgresStore.js';
+import { createMemoryStore } from './memoryStore.js';
+import type { Attachment, ChatStore, ThreadMessage } from './store.js';
 dotenv.config();
 
-const sql = neon(process.env.DATABASE_URL!);
-
-// Types
-export interface User {
-  id: number;
-  username: string;
-  created_at: string;
-}
-
-export interface Session {
-  id: number;
-  user_id: number;
-  title: string;
-  created_at: string;
-}
-
-export interface Message {
-  id: number;
-  session_id: number;
-  role: 'user' | 'assistant';
-  content: string;
-  created_at: string;
-}
-
-// Creates users, sessions, and messages tables (only if they don't exist)
-export async function initDatabase(): Promise<void> {
-  await sql`CREATE TABLE IF NOT EXISTS users (
-    id SERIAL PRIMARY KEY, 
-    username VARCHAR(50) UNIQUE NOT NULL, 
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-  )`;
-
-  await sql`CREATE TABLE IF NOT EXISTS sessions (
-    id SERIAL PRIMARY KEY, 
-    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE, 
-    title VARCHAR(100) DEFAULT 'New Chat', 
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-  )`;
-
-  await sql`CREATE TABLE IF NOT EXISTS messages (
-    id SERIAL PRIMARY KEY, 
-    session_id INTEGER REFERENCES sessions(id) ON DELETE CASCADE, 
-    role VARCHAR(20) NOT NULL, 
-    content TEXT NOT NULL, 
-    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-  )`;
-
-  console.log('✅ Database initialized');
-}
-
-// Gets existing user or creates new one
-export async function getOrCreateUser(username: string): Promise<User> {
-  let result = await sql`SELECT id, username, created_at FROM users WHERE username = ${username}`;
-  if (result.length === 0) {
-    result = await sql`INSERT INTO users (username) VALUES (${username}) RETURNING id, username, created_at`;
+export * from './store.js';
+
+// Picks the storage backend: STORAGE=postgres|memory, defaulting to Postgres when DATABASE_URL is set
+function createStore(): ChatStore {
+  const backend = process.env.STORAGE || (process.env.DATABASE_URL ? 'postgres' : 'memory');
+  switch (backend) {
+    case 'postgres':
+      if (!process.env.DATABASE_URL) throw new Error('STORAGE=postgres requires DATABASE_URL');
+      return createPostgresStore(process.env.DATABASE_URL);
+    case 'memory':
+      return createMemoryStore();
+    default:
+      throw new Error(`Unknown STORAGE "${backend}" (expected "postgres" or "memory")`);
   }
-  return result[0] as User;
 }
 
-// Creates a new chat session
-export async function createSession(userId: number, title: string = 'New Chat'): Promise<Session> {
-  const result = await sql`INSERT INTO sessions (user_id, title) VALUES (${userId}, ${title}) RETURNING id, user_id, title, created_at`;
-  return result[0] as Session;
+const store = createStore();
+
+export const {
+  initDatabase,
+  getUserByUsername,
+  getUserById,
+  createUser,
+  setUserPassword,
+  setUserRole,
+  setUserDisabled,
+  deleteUser,
+  searchUsers,
+  getUserStats,
+  getUserSessionStats,
+  createSession,
+  getSession,
+  getUserSessions,
+  updateSessionTitle,
+  renameSession,
+  updateSessionSettings,
+  updateSessionOrganization,
+  deleteSession,
+  getUserFolders,
+  getFolder,
+  createFolder,
+  renameFolder,
+  deleteFolder,
+  getUserTags,
+  getTag,
+  createTag,
+  renameTag,
+  deleteTag,
+  getUserTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  saveMessage,
+  getSessionTree,
+  getMessage,
+  getMessagePath,
+  setActiveMessage,
+  clearSessionMessages,
+  createAttachment,
+  getAttachment,
+  getMessageAttachments,
+  getPendingAttachments,
+  getAttachmentTexts,
+  linkAttachments,
+  copyAttachments,
+  deleteAttachment,
+  createDocument,
+  getUserDocuments,
+  getDocument,
+  deleteDocument,
+  searchDocumentChunks,
+  createShareLink,
+  getUserShareLinks,
+  getShareLink,
+  getSharedSnapshot,
+  deleteShareLink,
+  getSessionSummary,
+  saveSessionSummary,
+  searchUserContent,
+  recordUsage,
+  getUsageByModel,
+  recordAuditEntry,
+  getAuditLog,
+} = store;
+
+// Branch helpers built on top of the store, shared by every backend
+
+// Returns the selected branch of a session, root first
+export async function getSessionMessages(sessionId: number): Promise<ThreadMessage[]> {
+  const session = await getSession(sessionId);
+  return session?.active_message_id ? getMessagePath(sessionId, session.active_message_id) : [];
 }
 
-// Returns all sessions for a user
-export async function getUserSessions(userId: number): Promise<Session[]> {
-  return await sql`SELECT id, user_id, title, created_at FROM sessions WHERE user_id = ${userId} ORDER BY created_at DESC` as Session[];
+// A message as the client sees it, with the files attached to it
+export interface PageMessage extends ThreadMessage {
+  attachments: Attachment[];
 }
 
-// Updates session title
-export async function updateSessionTitle(sessionId: number, title: string): Promise<void> {
-  await sql`UPDATE sessions SET title = ${title} WHERE id = ${sessionId}`;
+// A page of a branch, root first; next_cursor is the id to pass as `before` for the older page (null at the root)
+export interface BranchPage {
+  messages: PageMessage[];
+  next_cursor: number | null;
 }
 
-// Deletes a session
-export async function deleteSession(sessionId: number): Promise<void> {
-  await sql`DELETE FROM sessions WHERE id = ${sessionId}`;
+// Returns the `limit` messages of a branch ending at leafId (the session is empty when it's null)
+export async function getBranchPage(sessionId: number, leafId: number | null, limit: number): Promise<BranchPage> {
+  if (leafId === null) return { messages: [], next_cursor: null };
+  const path = await getMessagePath(sessionId, leafId, limit + 1);
+  const hasMore = path.length > limit;
+  const page = hasMore ? path.slice(1) : path;
+  const attachments = await getMessageAttachments(page.map((msg) => msg.id));
+  const messages = page.map((msg) => ({ ...msg, attachments: attachments.filter((file) => file.message_id === msg.id) }));
+  return { messages, next_cursor: hasMore ? messages[0].id : null };
 }
 
-// Saves a message to a session
-export async function saveMessage(sessionId: number, role: 'user' | 'assistant', content: string): Promise<Message> {
-  const result = await sql`INSERT INTO messages (session_id, role, content) VALUES (${sessionId}, ${role}, ${content}) RETURNING id, session_id, role, content, created_at`;
-  return result[0] as Message;
-}
-
-// Returns all messages in a session
-export async function getSessionMessages(sessionId: number): Promise<Message[]> {
-  return await sql`SELECT id, session_id, role, content, created_at FROM messages WHERE session_id = ${sessionId} ORDER BY created_at ASC` as Message[];
+// Selects the branch through a message, following the newest child down to a leaf, and returns the leaf id
+export async function selectBranch(sessionId: number, messageId: number): Promise<number> {
+  const tree = await getSessionTree(sessionId);
+  let leafId = messageId;
+  for (;;) {
+    const children = tree.filter((msg) => msg.parent_id === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  await setActiveMessage(sessionId, leafId);
+  return leafId;
 }
 
-// Clears all messages in a session
-export async function clearSessionMessages(sessionId: number): Promise<void> {
-  await sql`DELETE FROM messages WHERE session_id = ${sessionId}`;
-}
@@ -0,0 +1,85 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { embedMany } from 'ai';
+
+// dotenv is configured in index.ts
+
+export interface EmbeddingProvider {
+    id: string;
+    model: string;
+    // One vector per text, in order
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+// Adds an embedding provider to the registry (replaces one with the same id)
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+    embeddingProviders.set(provider.id, provider);
+}
+
+// Returns the provider selected by EMBEDDING_PROVIDER (defaults to the built-in local one)
+export function getEmbeddingProvider(): EmbeddingProvider {
+    const id = process.env.EMBEDDING_PROVIDER || 'local';
+    const provider = embeddingProviders.get(id);
+    if (!provider) {
+        throw new Error(`Unknown embedding provider "${id}" (available: ${[...embeddingProviders.keys()].join(', ')})`);
+    }
+    return provider;
+}
+
+// Identifies the vectors a provider produces; vectors from different models can't be compared
+export function embeddingModelTag(provider: EmbeddingProvider): string {
+    return `${provider.id}:${provider.model}`;
+}
+
+const HASH_DIMENSIONS = 512;
+
+// FNV-1a, used to map terms to vector positions
+function hashTerm(term: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < term.length; i++) {
+        hash ^= term.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// Feature hashing over words and word pairs: no model to download, but it only matches shared wording, not meaning
+function hashEmbedding(text: string): number[] {
+    const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? [];
+    const terms = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    for (const term of terms) {
+        const hash = hashTerm(term);
+        // The top bit picks the sign so colliding terms tend to cancel out rather than add up
+        vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map((value) => value / norm) : vector;
+}
+
+// Built-in, offline embeddings (lexical similarity only)
+registerEmbeddingProvider({
+    id: 'local',
+    model: `hashing-${HASH_DIMENSIONS}`,
+    async embed(texts) {
+        return texts.map(hashEmbedding);
+    },
+});
+
+// Any OpenAI-compatible embeddings endpoint, e.g. Ollama (default URL) or OpenAI itself
+const compatibleModel = process.env.EMBEDDING_MODEL || 'nomic-embed-text';
+registerEmbeddingProvider({
+    id: 'openai-compatible',
+    model: compatibleModel,
+    async embed(texts) {
+        const client = createOpenAI({
+            baseURL: process.env.EMBEDDING_BASE_URL || 'http://localhost:11434/v1',
+            // Local servers usually ignore the key, but the client requires one
+            apiKey: process.env.EMBEDDING_API_KEY || 'not-needed',
+            compatibility: 'compatible',
+        });
+        const { embeddings } = await embedMany({ model: client.embedding(compatibleModel), values: texts });
+        return embeddings;
+    },
+});
@@ -0,0 +1,89 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+// Base class for errors that map to a specific HTTP status; the message is safe to show users
+export class AppError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// 400: request params, query or body failed validation
+export class ValidationError extends AppError {
+    constructor(message: string) {
+        super(message, 400);
+    }
+}
+
+// 401: missing/invalid credentials or token
+export class AuthError extends AppError {
+    constructor(message: string = 'Not authenticated') {
+        super(message, 401);
+    }
+}
+
+// 403: authenticated, but not allowed (e.g. a non-admin calling an admin route)
+export class ForbiddenError extends AppError {
+    constructor(message: string) {
+        super(message, 403);
+    }
+}
+
+// 404: resource doesn't exist or belongs to someone else
+export class NotFoundError extends AppError {
+    constructor(message: string) {
+        super(message, 404);
+    }
+}
+
+// 409: request conflicts with existing data (e.g. username taken)
+export class ConflictError extends AppError {
+    constructor(message: string) {
+        super(message, 409);
+    }
+}
+
+// 429: too many requests or the daily token quota is used up; retryAfter is in seconds
+export class RateLimitError extends AppError {
+    constructor(message: string, public readonly retryAfter: number) {
+        super(message, 429);
+    }
+}
+
+// 502: the LLM provider failed or returned an error
+export class UpstreamError extends AppError {
+    constructor(message: string = 'The AI provider failed to respond. Please try again.', public readonly cause?: unknown) {
+        super(message, 502);
+    }
+}
+
+// Lets async route handlers throw; Express 4 would otherwise leave the rejection unhandled
+export function asyncHandler<P>(
+    handler: (req: Request<P>, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler<P> {
+    return (req, res, next) => {
+        handler(req, res, next).catch(next);
+    };
+}
+
+// Message shown to users for any error (internal details stay in the server log)
+export function publicMessage(error: unknown): string {
+    return error instanceof AppError ? error.message : 'Something went wrong. Please try again.';
+}
+
+// Central error middleware: AppErrors keep their status and message, anything else is a 500
+export function errorHandler(error: unknown, _req: Request, res: Response, _next: NextFunction) {
+    // Malformed JSON bodies from express.json()
+    if (error instanceof SyntaxError && 'body' in error) {
+        return res.status(400).json({ success: false, error: 'Request body is not valid JSON' });
+    }
+    if ((error as { type?: string }).type === 'entity.too.large') {
+        return res.status(413).json({ success: false, error: 'Request body is too large' });
+    }
+
+    const status = error instanceof AppError ? error.status : 500;
+    if (status >= 500) console.error('Request failed:', error);
+    if (res.headersSent) return res.end();
+    if (error instanceof RateLimitError) res.setHeader('Retry-After', String(error.retryAfter));
+    res.status(status).json({ success: false, error: publicMessage(error) });
+}
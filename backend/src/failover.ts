@@ -0,0 +1,166 @@
+import { APICallError } from 'ai';
+import { getActiveProvider, listProviders, resolveModelId, type LLMProvider } from './providers.js';
+import { limitFromEnv } from './rateLimit.js';
+import { UpstreamError } from './errors.js';
+
+// dotenv is configured in index.ts
+
+// One model on one provider; a reply tries the targets of a chain in order until one answers
+export interface ModelTarget {
+    provider: LLMProvider;
+    modelId: string;
+}
+
+// Backoff never waits longer than this, even when the provider's Retry-After asks for more
+const MAX_BACKOFF_MS = 10_000;
+
+// Identifies a target in logs and in the circuit breaker
+export function targetKey(target: ModelTarget): string {
+    return `${target.provider.id}:${target.modelId}`;
+}
+
+// The session's model on the active provider, then the fallbacks from LLM_FALLBACKS
+// Fallbacks are comma-separated "provider" (its default model) or "provider:model" entries; duplicates are dropped
+// Fallback models aren't checked against the provider's model list, so any model the provider serves can be used
+export function modelChain(modelId?: string | null): ModelTarget[] {
+    const primary = getActiveProvider();
+    const chain: ModelTarget[] = [{ provider: primary, modelId: resolveModelId(primary, modelId ?? undefined) }];
+    const entries = (process.env.LLM_FALLBACKS ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+    for (const entry of entries) {
+        const separator = entry.indexOf(':');
+        const providerId = separator === -1 ? entry : entry.slice(0, separator);
+        const provider = listProviders().find((candidate) => candidate.id === providerId);
+        if (!provider) throw new Error(`Unknown LLM provider "${providerId}" in LLM_FALLBACKS`);
+        const target = { provider, modelId: separator === -1 ? provider.models[0] : entry.slice(separator + 1) };
+        if (!chain.some((existing) => targetKey(existing) === targetKey(target))) chain.push(target);
+    }
+    return chain;
+}
+
+// Thrown when an attempt runs past LLM_TIMEOUT_MS
+class AttemptTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`No response within ${timeoutMs} ms`);
+        this.name = 'AttemptTimeoutError';
+    }
+}
+
+// @ai-sdk/openai is built on an older @ai-sdk/provider than `ai`, so APICallError.isInstance() doesn't recognize
+// its errors; the deprecated shape check does
+function isAPICallError(error: unknown): error is APICallError {
+    return APICallError.isAPICallError(error);
+}
+
+// Timeouts, rate limits, server errors and network failures may pass; bad requests and auth errors won't
+function isRetryable(error: unknown): boolean {
+    if (error instanceof AttemptTimeoutError) return true;
+    if (isAPICallError(error)) return error.isRetryable;
+    // fetch reports refused connections, DNS failures and resets as TypeErrors
+    return error instanceof TypeError;
+}
+
+// Exponential backoff from LLM_RETRY_BASE_MS, or the provider's Retry-After when that is longer
+function backoffMs(retry: number, error: unknown): number {
+    const backoff = limitFromEnv('LLM_RETRY_BASE_MS', 500) * 2 ** retry;
+    const retryAfter = isAPICallError(error) ? parseInt(error.responseHeaders?.['retry-after'] ?? '') * 1000 : NaN;
+    return Math.min(Number.isNaN(retryAfter) ? backoff : Math.max(backoff, retryAfter), MAX_BACKOFF_MS);
+}
+
+// Waits ms, or rejects as soon as signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+// Per-target circuit breaker state: consecutive failures, and when an open breaker lets a trial request through
+interface Breaker {
+    failures: number;
+    openUntil: number;
+}
+
+const breakers = new Map<string, Breaker>();
+
+// False while the target's breaker is open; after LLM_BREAKER_COOLDOWN_MS one trial request is let through
+// (half-open) and other requests keep skipping the target until that trial succeeds or fails
+function allowRequest(key: string): boolean {
+    const breaker = breakers.get(key);
+    if (!breaker || breaker.openUntil === 0) return true;
+    if (Date.now() < breaker.openUntil) return false;
+    breaker.openUntil = Date.now() + limitFromEnv('LLM_BREAKER_COOLDOWN_MS', 30_000);
+    return true;
+}
+
+// Counts a failure; returns true when the breaker is (now) open
+// LLM_BREAKER_THRESHOLD failures in a row open it (0 disables the breaker)
+function recordFailure(key: string): boolean {
+    const threshold = limitFromEnv('LLM_BREAKER_THRESHOLD', 3);
+    const breaker = breakers.get(key) ?? { failures: 0, openUntil: 0 };
+    breaker.failures++;
+    breakers.set(key, breaker);
+    if (threshold <= 0 || breaker.failures < threshold) return false;
+    if (breaker.failures === threshold) console.warn(`Circuit breaker opened for ${key} after ${threshold} failures`);
+    breaker.openUntil = Date.now() + limitFromEnv('LLM_BREAKER_COOLDOWN_MS', 30_000);
+    return true;
+}
+
+// A success closes the breaker
+function recordSuccess(key: string): void {
+    if (breakers.get(key)?.openUntil) console.warn(`Circuit breaker closed for ${key}`);
+    breakers.delete(key);
+}
+
+// Runs one attempt with its own signal, which aborts when `signal` does or after LLM_TIMEOUT_MS
+// The timeout stops once the attempt resolves, so a stream it returns is afterwards only cut short by `signal`
+async function withTimeout<T>(signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const timeoutMs = limitFromEnv('LLM_TIMEOUT_MS', 60_000);
+    const controller = new AbortController();
+    const timer = timeoutMs > 0 ? setTimeout(() => controller.abort(new AttemptTimeoutError(timeoutMs)), timeoutMs) : undefined;
+    if (signal?.aborted) controller.abort(signal.reason);
+    signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    try {
+        return await run(controller.signal);
+    } catch (error) {
+        // The SDK reports aborts as generic AbortErrors; say that it was the timeout
+        throw controller.signal.reason instanceof AttemptTimeoutError ? controller.signal.reason : error;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// Calls `attempt` with each target of the chain in turn until one succeeds, and returns its result and the target
+// Retryable errors are retried up to LLM_MAX_RETRIES times per target with backoff; other errors move on to the next target
+// Targets whose circuit breaker is open are skipped; aborting `signal` stops immediately without counting as a failure
+export async function withFailover<T>(
+    chain: ModelTarget[],
+    signal: AbortSignal | undefined,
+    attempt: (target: ModelTarget, signal: AbortSignal) => Promise<T>,
+): Promise<{ result: T; target: ModelTarget }> {
+    const maxRetries = limitFromEnv('LLM_MAX_RETRIES', 2);
+    let lastError: unknown = null;
+    for (const target of chain) {
+        const key = targetKey(target);
+        if (!allowRequest(key)) continue;
+        for (let retry = 0; ; retry++) {
+            try {
+                const result = await withTimeout(signal, (attemptSignal) => attempt(target, attemptSignal));
+                recordSuccess(key);
+                return { result, target };
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                lastError = error;
+                console.warn(`LLM call to ${key} failed (attempt ${retry + 1}):`, error instanceof Error ? error.message : error);
+                const open = recordFailure(key);
+                if (open || !isRetryable(error) || retry >= maxRetries) break;
+                await sleep(backoffMs(retry, error), signal);
+            }
+        }
+    }
+    // Every target failed, or every breaker is open
+    throw lastError ?? new UpstreamError('The AI providers are unavailable right now. Please try again in a minute.');
+}
@@ -0,0 +1,82 @@
+import express, { Request, Response } from 'express';
+
+// Fake OpenAI-compatible LLM server for trying out retries and fallbacks: npm run fake-llm
+// Point the backend at it with LLM_PROVIDER=openai-compatible OPENAI_COMPATIBLE_BASE_URL=http://localhost:11435/v1
+// The model name picks the behavior:
+//   fail-<status>  always answers with that HTTP status, e.g. fail-503 or fail-401
+//   flaky-<n>      answers 503 to its first n requests, then replies normally
+//   slow-<ms>      waits that long before answering (to hit LLM_TIMEOUT_MS)
+//   anything else  replies "Fake reply from <model>: ..." straight away
+const PORT = parseInt(process.env.FAKE_LLM_PORT || '') || 11435;
+
+const app = express();
+app.use(express.json({ limit: '5mb' }));
+
+// Requests seen per model, for flaky-<n>
+const requestCounts = new Map<string, number>();
+
+interface ChatMessage {
+    role: string;
+    content: string | { type: string; text?: string }[] | null;
+}
+
+function lastUserText(messages: ChatMessage[]): string {
+    const content = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+    return typeof content === 'string' ? content : content.map((part) => part.text ?? '').join('');
+}
+
+// The HTTP status a request should fail with, or null to answer it
+function failureStatus(model: string, requestNumber: number): number | null {
+    const failing = /^fail-(\d{3})$/.exec(model);
+    if (failing) return parseInt(failing[1]);
+    const flaky = /^flaky-(\d+)$/.exec(model);
+    if (flaky && requestNumber <= parseInt(flaky[1])) return 503;
+    return null;
+}
+
+app.post(/\/chat\/completions$/, async (req: Request, res: Response) => {
+    const model = String(req.body.model ?? 'fake');
+    const requestNumber = (requestCounts.get(model) ?? 0) + 1;
+    requestCounts.set(model, requestNumber);
+
+    const slow = /^slow-(\d+)$/.exec(model);
+    if (slow) await new Promise((resolve) => setTimeout(resolve, parseInt(slow[1])));
+
+    const status = failureStatus(model, requestNumber);
+    console.log(`${model} #${requestNumber} → ${status ?? 200}${req.body.stream ? ' (stream)' : ''}`);
+    if (status !== null) {
+        res.status(status).json({ error: { message: `Fake ${status} from ${model}`, type: 'fake_error', code: status } });
+        return;
+    }
+
+    const text = `Fake reply from ${model}: "${lastUserText(req.body.messages ?? [])}"`;
+    const usage = {
+        prompt_tokens: JSON.stringify(req.body.messages ?? []).length,
+        completion_tokens: text.length,
+        total_tokens: JSON.stringify(req.body.messages ?? []).length + text.length,
+    };
+    const id = `fake-${Date.now()}`;
+    const created = Math.floor(Date.now() / 1000);
+
+    if (!req.body.stream) {
+        res.json({
+            id, object: 'chat.completion', created, model,
+            choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+            usage,
+        });
+        return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    const send = (choice: object, extra: object = {}) => {
+        res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, ...choice }], ...extra })}\n\n`);
+    };
+    for (const [i, word] of (text.match(/\S+\s*/g) ?? []).entries()) {
+        send({ delta: i === 0 ? { role: 'assistant', content: word } : { content: word }, finish_reason: null });
+    }
+    send({ delta: {}, finish_reason: 'stop' }, { usage });
+    res.write('data: [DONE]\n\n');
+    res.end();
+});
+
+app.listen(PORT, () => console.log(`🧪 Fake LLM listening at http://localhost:${PORT}/v1`));
@@ -1,4 +1,4 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
@@ -11,104 +11,851 @@ const __dirname = path.dirname(__filename);
 // Load .env from backend folder (works from both src/ and dist/)
 dotenv.config({ path: path.join(__dirname, '..', '.env') });
 
-import { initDatabase, getOrCreateUser, createSession, getUserSessions, deleteSession, saveMessage, getSessionMessages, clearSessionMessages, updateSessionTitle } from './db.js';
-import { generateAIResponse } from './ai.js';
+import { initDatabase, getUserByUsername, getUserById, createUser, getSession, createSession, getUserSessions, deleteSession, saveMessage, getSessionMessages, clearSessionMessages, updateSessionTitle, renameSession, updateSessionSettings, updateSessionOrganization, getUserFolders, getFolder, createFolder, renameFolder, deleteFolder, getUserTags, getTag, createTag, renameTag, deleteTag, getUserTemplates, getTemplate, createTemplate, updateTemplate, deleteTemplate, getMessage, getMessagePath, getBranchPage, selectBranch, searchUserContent, createAttachment, getPendingAttachments, linkAttachments, copyAttachments, deleteAttachment, getAttachment, getDocument, getUserDocuments, deleteDocument, getUserShareLinks, getShareLink, getSharedSnapshot, deleteShareLink, setUserRole, setUserDisabled, deleteUser, searchUsers, getUserStats, getUserSessionStats, getUsageByModel, recordAuditEntry, getAuditLog, type AttachmentFile, type AuditAction, type Citation, type Message, type MessageRole, type SaveMessageOptions, type Session, type SessionOrganization, type SessionSettings, type User } from './db.js';
+import { generateAIResponse, streamAIResponse, generateTitle, getModelOptions, type AIReply } from './ai.js';
+import { buildContext, type ChatContext } from './context.js';
+import { modelChain, targetKey } from './failover.js';
+import { MAX_ATTACHMENT_BYTES, extractText, mimeTypeFor } from './attachments.js';
+import { ingestDocument, citationsFor } from './retrieval.js';
+import { toolResultText } from './tools.js';
+import { attachRealtime, publish, disconnect } from './realtime.js';
+import { shareSession, isExpired } from './sharing.js';
+import { withVariables } from './templates.js';
+import { exportSessionJson, exportSessionMarkdown, sessionImportSchema, importSession } from './transfer.js';
+import { hashPassword, verifyPassword, createToken, requireAuth, requireAdmin, isConfiguredAdmin, grantConfiguredAdmins } from './auth.js';
+import { asyncHandler, errorHandler, publicMessage, AuthError, ConflictError, NotFoundError, ValidationError } from './errors.js';
+import { rateLimit, limitFromEnv } from './rateLimit.js';
+import { getDailyUsage, requireQuota } from './usage.js';
+import { parse, idParam, encodeSessionCursor, sessionListQuerySchema, credentialsSchema, createSessionSchema, sessionPatchSchema, folderSchema, tagSchema, templateSchema, chatSchema, editMessageSchema, searchQuerySchema, exportQuerySchema, pageQuerySchema, attachmentNameSchema, createShareSchema, adminUserQuerySchema, adminUserPatchSchema, auditQuerySchema, settingsPatchSchema, type SessionPatch, type SettingsPatch } from './validation.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Default page size for session lists and message history (clients may ask for up to 100)
+const PAGE_SIZE = 50;
+
+// Behind a reverse proxy (e.g. Railway) set TRUST_PROXY to the number of proxy hops so req.ip is the client's address
+if (process.env.TRUST_PROXY) app.set('trust proxy', parseInt(process.env.TRUST_PROXY) || 0);
+
+// Requests per minute: every API call per IP, and LLM calls per user (0 disables a limit)
+const ipRateLimit = rateLimit({
+    max: limitFromEnv('RATE_LIMIT_IP_PER_MINUTE', 300),
+    windowMs: 60_000,
+    key: (req) => req.ip,
+    message: 'Too many requests. Please slow down.',
+});
+const chatRateLimit = rateLimit({
+    max: limitFromEnv('RATE_LIMIT_CHAT_PER_MINUTE', 20),
+    windowMs: 60_000,
+    key: (req) => req.user && String(req.user.id),
+    message: 'You are sending messages too quickly. Please wait a moment.',
+});
+
+// Middleware for every route that calls the LLM
+const llmLimits = [chatRateLimit, requireQuota];
+
 app.use(cors());
-app.use(express.json());
+app.use('/api', ipRateLimit);
+app.use(express.json({ limit: '5mb' }));
 
 // Health check - moved to /api/health so frontend can be served at /
 app.get('/api/health', (_req: Request, res: Response) => {
     res.json({ status: 'ok', message: 'AI Chat Backend Running' });
 });
 
-// Login or register user
-app.post('/api/auth/login', async (req: Request, res: Response) => {
+// Register a new user
+app.post('/api/auth/register', asyncHandler(async (req, res) => {
+    const { username, password } = parse(credentialsSchema, req.body);
+    const normalized = username.toLowerCase();
+    if (await getUserByUsername(normalized)) throw new ConflictError('Username is already taken');
+
+    const created = await createUser(normalized, await hashPassword(password));
+    const user = isConfiguredAdmin(normalized) ? await setUserRole(created.id, 'admin') : created;
+    res.status(201).json({ success: true, user, token: createToken(user.id) });
+}));
+
+// Login with username and password
+// Legacy accounts without a password can't log in until one is set out of band (npm run set-password)
+app.post('/api/auth/login', asyncHandler(async (req, res) => {
+    const { username, password } = parse(credentialsSchema, req.body);
+    const record = await getUserByUsername(username.toLowerCase());
+    if (!record) throw new AuthError('Invalid username or password');
+    if (record.password_hash === null) {
+        throw new AuthError('This account needs a password reset. Ask an administrator to set a new password.');
+    }
+    if (!(await verifyPassword(password, record.password_hash))) throw new AuthError('Invalid username or password');
+    if (record.disabled_at) throw new AuthError('This account has been disabled');
+
+    const { password_hash: _passwordHash, ...user } = record;
+    res.json({ success: true, user, token: createToken(user.id) });
+}));
+
+// Public, read-only snapshot behind a share link (rendered by the frontend at /share/:token)
+app.get('/api/share/:token', asyncHandler<{ token: string }>(async (req, res) => {
+    const link = await getSharedSnapshot(req.params.token);
+    if (!link || isExpired(link)) throw new NotFoundError('This share link does not exist, was revoked or has expired');
+
+    // Revoking must take effect immediately, and shared chats shouldn't show up in search engines
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-Robots-Tag', 'noindex');
+    const { title, messages, created_at, expires_at } = link;
+    res.json({ success: true, share: { title, messages, created_at, expires_at } });
+}));
+
+// Everything below requires a valid token
+app.use('/api', requireAuth);
+
+// Current user (used by the frontend to validate a saved token)
+app.get('/api/auth/me', (req: Request, res: Response) => {
+    res.json({ success: true, user: req.user });
+});
+
+// Models, limits and defaults for the session settings panel
+app.get('/api/models', (_req: Request, res: Response) => {
+    res.json({ success: true, ...getModelOptions() });
+});
+
+// Today's token usage and quota for the current user
+app.get('/api/usage', asyncHandler(async (req, res) => {
+    res.json({ success: true, usage: await getDailyUsage(req.user!.id) });
+}));
+
+// Full-text search across the current user's conversations
+app.get('/api/search', asyncHandler(async (req, res) => {
+    const { q } = parse(searchQuerySchema, req.query);
+    if (q.length < 2) return res.json({ success: true, results: [] });
+
+    const results = await searchUserContent(req.user!.id, q);
+    res.json({ success: true, results });
+}));
+
+// Load :documentId into res.locals.document and make sure it belongs to the caller
+app.param('documentId', async (req: Request, res: Response, next: NextFunction, value: string) => {
     try {
-        const { username } = req.body;
-        if (!username || username.trim().length < 2) {
-            return res.json({ success: false, error: 'Username must be at least 2 characters' });
-        }
-        const user = await getOrCreateUser(username.trim().toLowerCase());
-        res.json({ success: true, user });
+        const document = await getDocument(parse(idParam, value));
+        if (!document || document.user_id !== req.user!.id) throw new NotFoundError('Document not found');
+        res.locals.document = document;
+        next();
     } catch (error) {
-        res.json({ success: false, error: 'Failed to login' });
+        next(error);
     }
 });
 
-// Get all sessions for a user
-app.get('/api/sessions/:userId', async (req: Request, res: Response) => {
+// The current user's document library, newest first
+app.get('/api/documents', asyncHandler(async (req, res) => {
+    res.json({ success: true, documents: await getUserDocuments(req.user!.id) });
+}));
+
+// Add a file to the library: it is chunked and embedded once, then searched by sessions with retrieval enabled
+// The body is the raw file, its name is in X-Filename (like attachments)
+app.post('/api/documents', express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }), asyncHandler(async (req, res) => {
+    const filename = parse(attachmentNameSchema, req.get('X-Filename'));
+    const content = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (content.length === 0) throw new ValidationError('File is empty');
+
+    const document = await ingestDocument(req.user!.id, filename, content);
+    res.status(201).json({ success: true, document });
+}));
+
+// Remove a document from the library (replies that cited it keep their excerpts)
+app.delete('/api/documents/:documentId', asyncHandler(async (_req, res) => {
+    await deleteDocument(res.locals.document.id);
+    res.json({ success: true });
+}));
+
+// Load :shareId into res.locals.shareLink and make sure it belongs to the caller
+app.param('shareId', async (req: Request, res: Response, next: NextFunction, value: string) => {
     try {
-        const sessions = await getUserSessions(parseInt(req.params.userId));
-        res.json({ success: true, sessions });
+        const link = await getShareLink(parse(idParam, value));
+        if (!link || link.user_id !== req.user!.id) throw new NotFoundError('Share link not found');
+        res.locals.shareLink = link;
+        next();
     } catch (error) {
-        res.json({ success: false, error: 'Failed to fetch sessions' });
+        next(error);
     }
 });
 
-// Create new session
-app.post('/api/sessions', async (req: Request, res: Response) => {
+// The current user's share links across all chats, newest first (expired ones included)
+app.get('/api/shares', asyncHandler(async (req, res) => {
+    res.json({ success: true, shares: await getUserShareLinks(req.user!.id) });
+}));
+
+// Revoke a share link; its URL stops working immediately
+app.delete('/api/shares/:shareId', asyncHandler(async (_req, res) => {
+    await deleteShareLink(res.locals.shareLink.id);
+    res.json({ success: true });
+}));
+
+// Load :folderId into res.locals.folder and make sure it belongs to the caller
+app.param('folderId', async (req: Request, res: Response, next: NextFunction, value: string) => {
+    try {
+        const folder = await getFolder(parse(idParam, value));
+        if (!folder || folder.user_id !== req.user!.id) throw new NotFoundError('Folder not found');
+        res.locals.folder = folder;
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Load :tagId into res.locals.tag and make sure it belongs to the caller
+app.param('tagId', async (req: Request, res: Response, next: NextFunction, value: string) => {
+    try {
+        const tag = await getTag(parse(idParam, value));
+        if (!tag || tag.user_id !== req.user!.id) throw new NotFoundError('Tag not found');
+        res.locals.tag = tag;
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Folder, tag and template names are unique per user, ignoring case
+function checkNameIsFree(existing: { id: number; name: string }[], name: string, ownId: number | null, what: string) {
+    if (existing.some((item) => item.id !== ownId && item.name.toLowerCase() === name.toLowerCase())) {
+        throw new ConflictError(`A ${what} named "${name}" already exists`);
+    }
+}
+
+// The current user's folders, by name
+app.get('/api/folders', asyncHandler(async (req, res) => {
+    res.json({ success: true, folders: await getUserFolders(req.user!.id) });
+}));
+
+app.post('/api/folders', asyncHandler(async (req, res) => {
+    const { name } = parse(folderSchema, req.body);
+    checkNameIsFree(await getUserFolders(req.user!.id), name, null, 'folder');
+    const folder = await createFolder(req.user!.id, name);
+    publish(req.user!.id, { type: 'organization.changed' });
+    res.status(201).json({ success: true, folder });
+}));
+
+app.patch('/api/folders/:folderId', asyncHandler(async (req, res) => {
+    const { name } = parse(folderSchema, req.body);
+    checkNameIsFree(await getUserFolders(req.user!.id), name, res.locals.folder.id, 'folder');
+    const folder = await renameFolder(res.locals.folder.id, name);
+    publish(req.user!.id, { type: 'organization.changed' });
+    res.json({ success: true, folder });
+}));
+
+// Delete a folder; its chats move back to the top level
+app.delete('/api/folders/:folderId', asyncHandler(async (req, res) => {
+    await deleteFolder(res.locals.folder.id);
+    publish(req.user!.id, { type: 'organization.changed' });
+    res.json({ success: true });
+}));
+
+// The current user's tags, by name
+app.get('/api/tags', asyncHandler(async (req, res) => {
+    res.json({ success: true, tags: await getUserTags(req.user!.id) });
+}));
+
+app.post('/api/tags', asyncHandler(async (req, res) => {
+    const { name } = parse(tagSchema, req.body);
+    checkNameIsFree(await getUserTags(req.user!.id), name, null, 'tag');
+    const tag = await createTag(req.user!.id, name);
+    publish(req.user!.id, { type: 'organization.changed' });
+    res.status(201).json({ success: true, tag });
+}));
+
+app.patch('/api/tags/:tagId', asyncHandler(async (req, res) => {
+    const { name } = parse(tagSchema, req.body);
+    checkNameIsFree(await getUserTags(req.user!.id), name, res.locals.tag.id, 'tag');
+    const tag = await renameTag(res.locals.tag.id, name);
+    publish(req.user!.id, { type: 'organization.changed' });
+    res.json({ success: true, tag });
+}));
+
+// Delete a tag; it is removed from every chat that had it
+app.delete('/api/tags/:tagId', asyncHandler(async (req, res) => {
+    await deleteTag(res.locals.tag.id);
+    publish(req.user!.id, { type: 'organization.changed' });
+    res.json({ success: true });
+}));
+
+// Load :templateId into res.locals.template and make sure it belongs to the caller
+app.param('templateId', async (req: Request, res: Response, next: NextFunction, value: string) => {
     try {
-        const { userId, title } = req.body;
-        const session = await createSession(userId, title || 'New Chat');
-        res.json({ success: true, session });
+        const template = await getTemplate(parse(idParam, value));
+        if (!template || template.user_id !== req.user!.id) throw new NotFoundError('Template not found');
+        res.locals.template = template;
+        next();
     } catch (error) {
-        res.json({ success: false, error: 'Failed to create session' });
+        next(error);
     }
 });
 
-// Delete session
-app.delete('/api/sessions/:sessionId', async (req: Request, res: Response) => {
+// The current user's prompt templates, by name, with the variables each one asks for
+app.get('/api/templates', asyncHandler(async (req, res) => {
+    res.json({ success: true, templates: (await getUserTemplates(req.user!.id)).map(withVariables) });
+}));
+
+app.post('/api/templates', asyncHandler(async (req, res) => {
+    const fields = parse(templateSchema, req.body);
+    checkNameIsFree(await getUserTemplates(req.user!.id), fields.name, null, 'template');
+    const template = await createTemplate(req.user!.id, fields);
+    publish(req.user!.id, { type: 'templates.changed' });
+    res.status(201).json({ success: true, template: withVariables(template) });
+}));
+
+app.patch('/api/templates/:templateId', asyncHandler(async (req, res) => {
+    const fields = parse(templateSchema, req.body);
+    checkNameIsFree(await getUserTemplates(req.user!.id), fields.name, res.locals.template.id, 'template');
+    const template = await updateTemplate(res.locals.template.id, fields);
+    publish(req.user!.id, { type: 'templates.changed' });
+    res.json({ success: true, template: withVariables(template) });
+}));
+
+app.delete('/api/templates/:templateId', asyncHandler(async (req, res) => {
+    await deleteTemplate(res.locals.template.id);
+    publish(req.user!.id, { type: 'templates.changed' });
+    res.json({ success: true });
+}));
+
+// Load :sessionId into res.locals.session and make sure it belongs to the caller
+app.param('sessionId', async (req: Request, res: Response, next: NextFunction, value: string) => {
     try {
-        await deleteSession(parseInt(req.params.sessionId));
-        res.json({ success: true });
+        const session = await getSession(parse(idParam, value));
+        if (!session || session.user_id !== req.user!.id) throw new NotFoundError('Session not found');
+        res.locals.session = session;
+        next();
     } catch (error) {
-        res.json({ success: false, error: 'Failed to delete session' });
+        next(error);
     }
 });
 
-// Get messages in session
-app.get('/api/sessions/:sessionId/messages', async (req: Request, res: Response) => {
+// Load :messageId into res.locals.message and make sure it is part of :sessionId
+app.param('messageId', async (_req: Request, res: Response, next: NextFunction, value: string) => {
     try {
-        const messages = await getSessionMessages(parseInt(req.params.sessionId));
-        res.json({ success: true, messages });
+        const message = await getMessage(parse(idParam, value));
+        if (!message || message.session_id !== res.locals.session.id) throw new NotFoundError('Message not found');
+        res.locals.message = message;
+        next();
     } catch (error) {
-        res.json({ success: false, error: 'Failed to fetch messages' });
+        next(error);
     }
 });
 
+// Load :attachmentId into res.locals.attachment and make sure it is part of :sessionId
+app.param('attachmentId', async (_req: Request, res: Response, next: NextFunction, value: string) => {
+    try {
+        const attachment = await getAttachment(parse(idParam, value));
+        if (!attachment || attachment.session_id !== res.locals.session.id) throw new NotFoundError('Attachment not found');
+        res.locals.attachment = attachment;
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Get the current user's sessions, pinned first and then newest first, one page at a time
+// Archived sessions are only listed with archived=true; folder and tag narrow the list down
+app.get('/api/sessions', asyncHandler(async (req, res) => {
+    const { before, limit = PAGE_SIZE, folder, tag, archived } = parse(sessionListQuerySchema, req.query);
+    const sessions = await getUserSessions(req.user!.id, { folderId: folder, tagId: tag, archived }, before ?? null, limit + 1);
+    const page = sessions.slice(0, limit);
+    res.json({ success: true, sessions: page, next_cursor: sessions.length > limit ? encodeSessionCursor(page[page.length - 1]) : null });
+}));
+
+// Create new session
+app.post('/api/sessions', asyncHandler(async (req, res) => {
+    const { title } = parse(createSessionSchema, req.body);
+    const session = await createSession(req.user!.id, title || 'New Chat');
+    publish(session.user_id, { type: 'session.created', session });
+    res.status(201).json({ success: true, session });
+}));
+
+// Get one session, e.g. a search hit in a chat that isn't in the loaded part of the sidebar
+app.get('/api/sessions/:sessionId', (_req: Request, res: Response) => {
+    res.json({ success: true, session: res.locals.session });
+});
+
+// Applies a validated settings patch: fields left out keep their current value, null resets to the default
+function applySettingsPatch(current: SessionSettings, patch: SettingsPatch): SessionSettings {
+    return {
+        model: patch.model === undefined ? current.model : patch.model,
+        system_prompt: patch.systemPrompt === undefined ? current.system_prompt : patch.systemPrompt?.trim() || null,
+        temperature: patch.temperature === undefined ? current.temperature : patch.temperature,
+        max_tokens: patch.maxTokens === undefined ? current.max_tokens : patch.maxTokens,
+        retrieval_enabled: patch.retrieval ?? current.retrieval_enabled,
+    };
+}
+
+// Update session model, system prompt and generation settings
+app.patch('/api/sessions/:sessionId/settings', asyncHandler(async (req, res) => {
+    const current: Session = res.locals.session;
+    const { models, limits } = getModelOptions();
+    const patch = parse(settingsPatchSchema(models, limits), req.body);
+
+    const session = await updateSessionSettings(current.id, applySettingsPatch(current, patch));
+    publish(session.user_id, { type: 'session.updated', session });
+    res.json({ success: true, session });
+}));
+
+// Applies a validated session patch to the session's organization; folder and tags must be the user's own
+async function applyOrganizationPatch(current: Session, patch: SessionPatch): Promise<SessionOrganization> {
+    if (patch.folderId) {
+        const folder = await getFolder(patch.folderId);
+        if (!folder || folder.user_id !== current.user_id) throw new ValidationError('Folder not found');
+    }
+    if (patch.tagIds && patch.tagIds.length > 0) {
+        const tags = await getUserTags(current.user_id);
+        if (!patch.tagIds.every((id) => tags.some((tag) => tag.id === id))) throw new ValidationError('Tag not found');
+    }
+    return {
+        folder_id: patch.folderId === undefined ? current.folder_id : patch.folderId,
+        pinned: patch.pinned ?? current.pinned,
+        archived: patch.archived ?? current.archived,
+        tag_ids: patch.tagIds ? [...new Set(patch.tagIds)].sort((a, b) => a - b) : current.tag_ids,
+    };
+}
+
+// Rename a session, move it to a folder, pin, archive or tag it
+// Automatic titles never replace a name the user chose
+app.patch('/api/sessions/:sessionId', asyncHandler(async (req, res) => {
+    const patch = parse(sessionPatchSchema, req.body);
+    let session: Session = res.locals.session;
+
+    if (patch.title !== undefined) session = await renameSession(session.id, patch.title);
+    if (patch.folderId !== undefined || patch.pinned !== undefined || patch.archived !== undefined || patch.tagIds !== undefined) {
+        session = await updateSessionOrganization(session.id, await applyOrganizationPatch(session, patch));
+    }
+    publish(session.user_id, { type: 'session.updated', session });
+    res.json({ success: true, session });
+}));
+
+// Export a session as a Markdown transcript (selected branch) or a versioned JSON document (all branches)
+app.get('/api/sessions/:sessionId/export', asyncHandler(async (req, res) => {
+    const session: Session = res.locals.session;
+    const { format } = parse(exportQuerySchema, req.query);
+    const filename = `${session.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'chat'}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'md') {
+        res.type('text/markdown').send(await exportSessionMarkdown(session));
+    } else {
+        res.json(await exportSessionJson(session));
+    }
+}));
+
+// Import a JSON export as a new session for the current user
+// Settings this deployment can't honour (unknown model, out-of-range values) fall back to the default
+app.post('/api/sessions/import', asyncHandler(async (req, res) => {
+    const doc = parse(sessionImportSchema, req.body);
+
+    const { models, limits } = getModelOptions();
+    const imported = doc.session.settings;
+    const schema = settingsPatchSchema(models, limits);
+    const valid = <K extends keyof SettingsPatch>(key: K, value: SettingsPatch[K]) =>
+        schema.shape[key].safeParse(value).success ? value : null;
+    const settings = applySettingsPatch({ model: null, system_prompt: null, temperature: null, max_tokens: null, retrieval_enabled: false }, {
+        model: valid('model', imported.model),
+        systemPrompt: valid('systemPrompt', imported.system_prompt),
+        temperature: valid('temperature', imported.temperature),
+        maxTokens: valid('maxTokens', imported.max_tokens),
+        retrieval: imported.retrieval_enabled,
+    });
+
+    const session = await importSession(req.user!.id, doc, settings);
+    publish(session.user_id, { type: 'session.created', session });
+    res.status(201).json({ success: true, session });
+}));
+
+// Create a share link to a frozen copy of the selected branch
+app.post('/api/sessions/:sessionId/shares', asyncHandler(async (req, res) => {
+    const { expiresInDays } = parse(createShareSchema, req.body);
+    const share = await shareSession(res.locals.session, expiresInDays);
+    res.status(201).json({ success: true, share });
+}));
+
+// Delete session (its share links go with it)
+app.delete('/api/sessions/:sessionId', asyncHandler(async (_req, res) => {
+    const session: Session = res.locals.session;
+    await deleteSession(session.id);
+    publish(session.user_id, { type: 'session.deleted', session_id: session.id });
+    res.json({ success: true });
+}));
+
+// Get the selected branch of a session, newest page first; `before` pages back towards the root
+app.get('/api/sessions/:sessionId/messages', asyncHandler(async (req, res) => {
+    const session: Session = res.locals.session;
+    const { before, limit = PAGE_SIZE } = parse(pageQuerySchema, req.query);
+
+    let leafId = session.active_message_id;
+    if (before !== undefined) {
+        const cursor = await getMessage(before);
+        if (!cursor || cursor.session_id !== session.id) throw new NotFoundError('Message not found');
+        leafId = cursor.parent_id;
+    }
+    res.json({ success: true, ...await getBranchPage(session.id, leafId, limit) });
+}));
+
+// Upload a file to send with the next message; the body is the raw file, its name is in X-Filename
+app.post('/api/sessions/:sessionId/attachments', express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }), asyncHandler(async (req, res) => {
+    const filename = parse(attachmentNameSchema, req.get('X-Filename'));
+    const content = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (content.length === 0) throw new ValidationError('File is empty');
+
+    const attachment = await createAttachment({
+        session_id: res.locals.session.id,
+        filename,
+        mime_type: mimeTypeFor(filename),
+        content,
+        text: await extractText(filename, content),
+    });
+    res.status(201).json({ success: true, attachment });
+}));
+
+// Download an attached file
+app.get('/api/sessions/:sessionId/attachments/:attachmentId', (_req: Request, res: Response) => {
+    const attachment: AttachmentFile = res.locals.attachment;
+    res.setHeader('Content-Type', attachment.mime_type);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(attachment.content);
+});
+
+// Remove an upload that hasn't been sent yet
+app.delete('/api/sessions/:sessionId/attachments/:attachmentId', asyncHandler(async (_req, res) => {
+    const attachment: AttachmentFile = res.locals.attachment;
+    if (attachment.message_id !== null) throw new ValidationError('Files of sent messages cannot be removed');
+    await deleteAttachment(attachment.id);
+    res.json({ success: true });
+}));
+
+// Saves a message and announces it to the user's open tabs
+async function appendMessage(session: Session, role: MessageRole, content: string, parentId: number | null, options?: SaveMessageOptions): Promise<Message> {
+    const message = await saveMessage(session.id, role, content, parentId, options);
+    publish(session.user_id, { type: 'message.created', message });
+    return message;
+}
+
+// Sets an automatic title unless the user has renamed the chat, and announces it to their open tabs
+async function applyAutomaticTitle(session: Session, title: string) {
+    const updated = await updateSessionTitle(session.id, title);
+    if (updated) publish(session.user_id, { type: 'session.updated', session: updated });
+}
+
+// Names a new chat after its first message until the model-written title is ready
+async function titleFromFirstMessage(session: Session, message: string) {
+    await applyAutomaticTitle(session, message.substring(0, 50));
+}
+
+// Asks the model for a title once the first reply is saved; called after the response is sent so it never delays the chat
+function titleFromFirstExchange(session: Session, message: string, reply: Message) {
+    generateTitle(session, message, reply.content)
+        .then((title) => title ? applyAutomaticTitle(session, title) : undefined)
+        .catch((error) => console.error('Title generation failed:', error));
+}
+
+// Checks that attachment ids sent with a message are this session's unsent uploads
+async function checkPendingAttachments(sessionId: number, attachmentIds: number[]) {
+    if (attachmentIds.length === 0) return;
+    const pending = await getPendingAttachments(sessionId);
+    if (!attachmentIds.every((id) => pending.some((attachment) => attachment.id === id))) {
+        throw new ValidationError('Attachment not found or already sent');
+    }
+}
+
 // Send message and get AI response
-app.post('/api/sessions/:sessionId/chat', async (req: Request, res: Response) => {
+app.post('/api/sessions/:sessionId/chat', llmLimits, asyncHandler(async (req, res) => {
+    const session: Session = res.locals.session;
+    const { message, attachmentIds } = parse(chatSchema, req.body);
+    await checkPendingAttachments(session.id, attachmentIds);
+
+    const history = await getSessionMessages(session.id);
+    const userMessage = await appendMessage(session, 'user', message, session.active_message_id);
+    await linkAttachments(attachmentIds, userMessage.id);
+    if (history.length === 0) await titleFromFirstMessage(session, message);
+
+    const signal = abortOnClose(res);
+    let context: ChatContext;
+    let reply: AIReply;
     try {
-        const sessionId = parseInt(req.params.sessionId);
-        const { message } = req.body;
-        if (!message?.trim()) return res.json({ success: false, error: 'Message cannot be empty' });
+        context = await buildContext(session, history, userMessage);
+        reply = await generateAIResponse(context, session, signal);
+    } catch (error) {
+        // Nothing was written yet, but the turn keeps an (empty) reply that can be retried
+        await saveUnfinishedReply(session, userMessage.id, '', null, null, signal, error);
+        throw error;
+    }
+
+    // Tool calls are chained between the user message and the reply
+    const toolMessages: Message[] = [];
+    for (const call of reply.toolCalls) {
+        const parentId = toolMessages.length > 0 ? toolMessages[toolMessages.length - 1].id : userMessage.id;
+        toolMessages.push(await appendMessage(session, 'tool', toolResultText(call), parentId, { toolCall: call }));
+    }
+    const savedResponse = await appendMessage(session, 'assistant', reply.text, toolMessages.length > 0 ? toolMessages[toolMessages.length - 1].id : userMessage.id, {
+        citations: citationsFor(context.sources, reply.text),
+        model: reply.model,
+    });
+
+    res.json({ success: true, response: savedResponse, tool_messages: toolMessages });
+    if (history.length === 0) titleFromFirstExchange(session, message, savedResponse);
+}));
 
-        await saveMessage(sessionId, 'user', message);
-        const history = await getSessionMessages(sessionId);
-        const aiResponse = await generateAIResponse(message, history.slice(0, -1));
-        const savedResponse = await saveMessage(sessionId, 'assistant', aiResponse);
+// Aborts when the client goes away before the response is finished (the Stop button, or a closed tab)
+function abortOnClose(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    return controller.signal;
+}
 
-        if (history.length <= 1) await updateSessionTitle(sessionId, message.substring(0, 50));
+// Saves a reply that didn't finish under parentId: interrupted when the client stopped it, failed otherwise
+// content is whatever had been written so far, by model (null when no model got to answer)
+async function saveUnfinishedReply(session: Session, parentId: number, content: string, citations: Citation[] | null, model: string | null, signal: AbortSignal, error: unknown): Promise<Message> {
+    const stopped = signal.aborted;
+    if (!stopped) console.error('Chat error:', error);
+    return appendMessage(session, 'assistant', content, parentId, {
+        citations,
+        model,
+        status: stopped ? 'interrupted' : 'failed',
+        error: stopped ? null : publicMessage(error),
+    });
+}
+
+// Switches the response to Server-Sent Events and returns a function that sends one event
+// Writes stop once the client disconnects
+function openEventStream(res: Response) {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+    return (event: string, data: unknown) => {
+        if (!clientGone) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+}
+
+// Streams an assistant reply to a saved user message and saves it under that message
+// Tool calls are saved as a chain of tool messages between the two, each announced with a `tool` event
+// Emits `model` with the model that answered, `delta` events with partial text, then `done` with the saved assistant message (or `error`)
+// Errors after the stream has started can't change the HTTP status, so they are sent as `error` events,
+// along with the failed reply that was saved in its place
+// Disconnecting stops generation; the text written so far is saved as an interrupted reply
+// Returns the saved reply, or null when it was stopped or failed
+async function streamReply(res: Response, session: Session, userMessage: Message, history: Message[]): Promise<Message | null> {
+    const sendEvent = openEventStream(res);
+    const signal = abortOnClose(res);
+    let context: ChatContext | null = null;
+    let aiResponse = '';
+    let model: string | null = null;
+    let parentId = userMessage.id;
+    try {
+        context = await buildContext(session, history, userMessage);
 
-        res.json({ success: true, response: savedResponse });
+        for await (const event of streamAIResponse(context, session, signal)) {
+            if (event.type === 'model') {
+                model = event.model;
+                sendEvent('model', { model });
+            } else if (event.type === 'text') {
+                aiResponse += event.text;
+                sendEvent('delta', { text: event.text });
+            } else {
+                const toolMessage = await appendMessage(session, 'tool', toolResultText(event.call), parentId, { toolCall: event.call });
+                parentId = toolMessage.id;
+                sendEvent('tool', { message: toolMessage });
+            }
+        }
+        const savedResponse = await appendMessage(session, 'assistant', aiResponse, parentId, {
+            citations: citationsFor(context.sources, aiResponse),
+            model,
+        });
+
+        sendEvent('done', { success: true, response: savedResponse });
+        return savedResponse;
     } catch (error) {
-        console.error('Chat error:', error);
-        res.json({ success: false, error: 'Failed to process message' });
+        const citations = context ? citationsFor(context.sources, aiResponse) : null;
+        const savedResponse = await saveUnfinishedReply(session, parentId, aiResponse, citations, model, signal, error);
+        sendEvent('error', { success: false, error: publicMessage(error), response: savedResponse });
+        return null;
+    } finally {
+        res.end();
     }
-});
+}
+
+// Send message and stream AI response as Server-Sent Events
+app.post('/api/sessions/:sessionId/chat/stream', llmLimits, asyncHandler(async (req, res) => {
+    const session: Session = res.locals.session;
+    const { message, attachmentIds } = parse(chatSchema, req.body);
+    await checkPendingAttachments(session.id, attachmentIds);
+
+    const history = await getSessionMessages(session.id);
+    const userMessage = await appendMessage(session, 'user', message, session.active_message_id);
+    await linkAttachments(attachmentIds, userMessage.id);
+    if (history.length === 0) await titleFromFirstMessage(session, message);
+
+    const reply = await streamReply(res, session, userMessage, history);
+    if (history.length === 0 && reply) titleFromFirstExchange(session, message, reply);
+}));
+
+// Regenerate an assistant reply as a new sibling branch (streams like /chat/stream)
+app.post('/api/sessions/:sessionId/messages/:messageId/regenerate', llmLimits, asyncHandler(async (_req, res) => {
+    const session: Session = res.locals.session;
+    const original: Message = res.locals.message;
+    if (original.role !== 'assistant' || original.parent_id === null) {
+        throw new ValidationError('Only assistant replies can be regenerated');
+    }
+
+    // The reply may follow tool calls; answer the user message they were made for
+    const path = await getMessagePath(session.id, original.parent_id);
+    const userIndex = path.map((msg) => msg.role).lastIndexOf('user');
+    if (userIndex === -1) throw new ValidationError('Only assistant replies can be regenerated');
+    await streamReply(res, session, path[userIndex], path.slice(0, userIndex));
+}));
+
+// Edit a user message: saves the new text (keeping its files) as a sibling branch and streams a fresh reply
+app.post('/api/sessions/:sessionId/messages/:messageId/edit', llmLimits, asyncHandler(async (req, res) => {
+    const session: Session = res.locals.session;
+    const original: Message = res.locals.message;
+    const { content } = parse(editMessageSchema, req.body);
+    if (original.role !== 'user') throw new ValidationError('Only your own messages can be edited');
+
+    const history = original.parent_id === null ? [] : await getMessagePath(session.id, original.parent_id);
+    const userMessage = await appendMessage(session, 'user', content, original.parent_id);
+    await copyAttachments(original.id, userMessage.id);
+    await streamReply(res, session, userMessage, history);
+}));
+
+// Switch to the branch through a message (e.g. a sibling picked in the UI) and return its newest page
+app.post('/api/sessions/:sessionId/messages/:messageId/select', asyncHandler(async (_req, res) => {
+    const session: Session = res.locals.session;
+    const leafId = await selectBranch(session.id, res.locals.message.id);
+    publish(session.user_id, { type: 'branch.selected', session_id: session.id, message_id: leafId });
+    res.json({ success: true, ...await getBranchPage(session.id, leafId, PAGE_SIZE) });
+}));
 
 // Clear messages in session
-app.delete('/api/sessions/:sessionId/messages', async (req: Request, res: Response) => {
+app.delete('/api/sessions/:sessionId/messages', asyncHandler(async (_req, res) => {
+    const session: Session = res.locals.session;
+    await clearSessionMessages(session.id);
+    publish(session.user_id, { type: 'messages.cleared', session_id: session.id });
+    res.json({ success: true });
+}));
+
+// Admin console: every route below /api/admin is for admins only, and every change is written to the audit log
+app.use('/api/admin', requireAdmin);
+
+// Writes a change an admin made to the audit log
+async function audit(admin: User, action: AuditAction, target: User, details: Record<string, unknown> = {}) {
+    await recordAuditEntry({
+        admin_id: admin.id,
+        admin_username: admin.username,
+        action,
+        target_user_id: target.id,
+        target_username: target.username,
+        details,
+    });
+}
+
+// Admins can't lock themselves out
+function checkNotSelf(admin: User, target: User, what: string) {
+    if (target.id === admin.id) throw new ValidationError(`You can't ${what} your own account`);
+}
+
+// Load :userId into res.locals.targetUser (admin routes only)
+app.param('userId', async (_req: Request, res: Response, next: NextFunction, value: string) => {
     try {
-        await clearSessionMessages(parseInt(req.params.sessionId));
-        res.json({ success: true });
+        const user = await getUserById(parse(idParam, value));
+        if (!user) throw new NotFoundError('User not found');
+        res.locals.targetUser = user;
+        next();
     } catch (error) {
-        res.json({ success: false, error: 'Failed to clear messages' });
+        next(error);
+    }
+});
+
+// Users with their session and message counts and token usage, newest first; q searches usernames
+app.get('/api/admin/users', asyncHandler(async (req, res) => {
+    const { q, before, limit = PAGE_SIZE } = parse(adminUserQuerySchema, req.query);
+    const users = await searchUsers(q, before ?? null, limit + 1);
+    const page = users.slice(0, limit);
+    res.json({ success: true, users: page, next_cursor: users.length > limit ? page[page.length - 1].id : null });
+}));
+
+// One user in detail: totals, sessions (titles only), share links, and token usage today and overall per model
+app.get('/api/admin/users/:userId', asyncHandler(async (_req, res) => {
+    const target: User = res.locals.targetUser;
+    const [user, sessions, shares, today, allTime] = await Promise.all([
+        getUserStats(target.id),
+        getUserSessionStats(target.id),
+        getUserShareLinks(target.id),
+        getDailyUsage(target.id),
+        getUsageByModel(target.id, new Date(0).toISOString()),
+    ]);
+    res.json({ success: true, user, sessions, shares, usage: { today, all_time: allTime } });
+}));
+
+// Change a user's role or disable/re-enable the account; disabling signs them out everywhere
+app.patch('/api/admin/users/:userId', asyncHandler(async (req, res) => {
+    let target: User = res.locals.targetUser;
+    const { role, disabled } = parse(adminUserPatchSchema, req.body);
+
+    if (role !== undefined && role !== target.role) {
+        checkNotSelf(req.user!, target, 'change the role of');
+        target = await setUserRole(target.id, role);
+        await audit(req.user!, role === 'admin' ? 'user.promote' : 'user.demote', target);
     }
+    if (disabled !== undefined && disabled !== (target.disabled_at !== null)) {
+        checkNotSelf(req.user!, target, 'disable');
+        target = await setUserDisabled(target.id, disabled);
+        await audit(req.user!, disabled ? 'user.disable' : 'user.enable', target);
+        if (disabled) disconnect(target.id);
+    }
+    res.json({ success: true, user: await getUserStats(target.id) });
+}));
+
+// Delete an account with all of its chats, documents and share links
+app.delete('/api/admin/users/:userId', asyncHandler(async (req, res) => {
+    const target: User = res.locals.targetUser;
+    checkNotSelf(req.user!, target, 'delete');
+    const stats = await getUserStats(target.id);
+    await deleteUser(target.id);
+    disconnect(target.id);
+    await audit(req.user!, 'user.delete', target, { session_count: stats?.session_count, message_count: stats?.message_count });
+    res.json({ success: true });
+}));
+
+// Delete one of a user's chats
+app.delete('/api/admin/users/:userId/sessions/:id', asyncHandler<{ userId: string; id: string }>(async (req, res) => {
+    const target: User = res.locals.targetUser;
+    const session = await getSession(parse(idParam, req.params.id));
+    if (!session || session.user_id !== target.id) throw new NotFoundError('Session not found');
+
+    await deleteSession(session.id);
+    publish(session.user_id, { type: 'session.deleted', session_id: session.id });
+    await audit(req.user!, 'session.delete', target, { session_id: session.id, title: session.title });
+    res.json({ success: true });
+}));
+
+// Revoke one of a user's share links
+app.delete('/api/admin/users/:userId/shares/:id', asyncHandler<{ userId: string; id: string }>(async (req, res) => {
+    const target: User = res.locals.targetUser;
+    const link = await getShareLink(parse(idParam, req.params.id));
+    if (!link || link.user_id !== target.id) throw new NotFoundError('Share link not found');
+
+    await deleteShareLink(link.id);
+    await audit(req.user!, 'share.delete', target, { share_id: link.id, session_id: link.session_id, title: link.title });
+    res.json({ success: true });
+}));
+
+// The audit log, newest first; user= limits it to entries about one user
+app.get('/api/admin/audit', asyncHandler(async (req, res) => {
+    const { user, before, limit = PAGE_SIZE } = parse(auditQuerySchema, req.query);
+    const entries = await getAuditLog(user ?? null, before ?? null, limit + 1);
+    const page = entries.slice(0, limit);
+    res.json({ success: true, entries: page, next_cursor: entries.length > limit ? page[page.length - 1].id : null });
+}));
+
+// Unknown API routes get a JSON 404 instead of the SPA
+app.all('/api/*', () => {
+    throw new NotFoundError('Not found');
 });
 
 // Serve frontend static files (production)
@@ -117,14 +864,27 @@ app.delete('/api/sessions/:sessionId/messages', async (req: Request, res: Respon
 const frontendPath = path.join(__dirname, '../..', 'frontend/dist');
 app.use(express.static(frontendPath));
 
+// Shared transcripts are rendered by the SPA; keep them out of search engines
+app.get('/share/:token', (_req: Request, res: Response) => {
+    res.setHeader('X-Robots-Tag', 'noindex');
+    res.sendFile(path.join(frontendPath, 'index.html'));
+});
+
 // SPA fallback - serve index.html for all non-API routes
 app.get('*', (_req: Request, res: Response) => {
     res.sendFile(path.join(frontendPath, 'index.html'));
 });
 
+app.use(errorHandler);
+
 // Start server
-initDatabase().then(() => {
-    app.listen(PORT, () => console.log(`🚀 Backend running at http://localhost:${PORT}`));
+initDatabase().then(async () => {
+    await grantConfiguredAdmins();
+    // Fails fast on an unknown provider or model instead of on the first chat
+    const chain = modelChain().map(targetKey);
+    if (chain.length > 1) console.log(`🔁 Model fallbacks: ${chain.join(' → ')}`);
+    const server = app.listen(PORT, () => console.log(`🚀 Backend running at http://localhost:${PORT}`));
+    attachRealtime(server);
 }).catch((error) => {
     console.error('Failed to initialize:', error);
     process.exit(1);
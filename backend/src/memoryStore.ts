@@ -0,0 +1,696 @@
+import { HIGHLIGHT_START, HIGHLIGHT_END, type ChatStore, type User, type UserRecord, type Session, type SessionSettings, type SessionOrganization, type SessionFilter, type SessionCursor, type UserRole, type UserStats, type SessionStats, type AuditEntry, type NewAuditEntry, type Folder, type Tag, type PromptTemplate, type PromptTemplateFields, type Message, type MessageRole, type ThreadMessage, type SessionSummary, type SearchResult, type UsageEntry, type UsageTotals, type Attachment, type AttachmentText, type AttachmentFile, type NewAttachment, type SaveMessageOptions, type LibraryDocument, type NewDocument, type NewChunk, type RetrievedChunk, type ShareLink, type SharedSnapshot, type NewShareLink } from './store.js';
+
+// Process-local ChatStore for development and demos; everything is lost on restart
+// Mirrors the Postgres behaviour: cascading deletes, newest sessions first, ids from counters
+export function createMemoryStore(): ChatStore {
+  const users = new Map<number, UserRecord>();
+  const sessions = new Map<number, Session>();
+  const messages = new Map<number, Message>();
+  const summaries = new Map<number, SessionSummary>();
+  const usage: (UsageEntry & { created_at: string })[] = [];
+  const attachments = new Map<number, AttachmentFile & AttachmentText>();
+  const documents = new Map<number, LibraryDocument>();
+  const chunks: (NewChunk & { id: number; document_id: number; chunk_index: number })[] = [];
+  const shareLinks = new Map<number, SharedSnapshot>();
+  const folders = new Map<number, Folder>();
+  const tags = new Map<number, Tag>();
+  const templates = new Map<number, PromptTemplate>();
+  const auditLog: AuditEntry[] = [];
+  const nextId = { user: 1, session: 1, message: 1, attachment: 1, document: 1, chunk: 1, shareLink: 1, folder: 1, tag: 1, template: 1, audit: 1 };
+
+  const now = () => new Date().toISOString();
+  const toUser = ({ id, username, role, disabled_at, created_at }: UserRecord): User => ({ id, username, role, disabled_at, created_at });
+
+  async function initDatabase(): Promise<void> {
+    console.warn('⚠️  Using in-memory storage, data will be lost when the server stops');
+  }
+
+  // Finds a user by username, including the password hash
+  async function getUserByUsername(username: string): Promise<UserRecord | null> {
+    for (const user of users.values()) {
+      if (user.username === username) return { ...user };
+    }
+    return null;
+  }
+
+  // Finds a user by id
+  async function getUserById(userId: number): Promise<User | null> {
+    const user = users.get(userId);
+    return user ? toUser(user) : null;
+  }
+
+  // Creates a new user with a hashed password
+  async function createUser(username: string, passwordHash: string): Promise<User> {
+    const user: UserRecord = { id: nextId.user++, username, role: 'user', disabled_at: null, password_hash: passwordHash, created_at: now() };
+    users.set(user.id, user);
+    return toUser(user);
+  }
+
+  // Sets the password hash for a user
+  async function setUserPassword(userId: number, passwordHash: string): Promise<void> {
+    const user = users.get(userId);
+    if (user) user.password_hash = passwordHash;
+  }
+
+  // Gives a user the admin role or takes it away
+  async function setUserRole(userId: number, role: UserRole): Promise<User> {
+    const user = users.get(userId)!;
+    user.role = role;
+    return toUser(user);
+  }
+
+  // Disables or re-enables an account (keeps the original time when it's disabled again)
+  async function setUserDisabled(userId: number, disabled: boolean): Promise<User> {
+    const user = users.get(userId)!;
+    user.disabled_at = disabled ? user.disabled_at ?? now() : null;
+    return toUser(user);
+  }
+
+  // Deletes an account and everything it owns
+  async function deleteUser(userId: number): Promise<void> {
+    for (const session of [...sessions.values()]) {
+      if (session.user_id === userId) await deleteSession(session.id);
+    }
+    for (const doc of [...documents.values()]) {
+      if (doc.user_id === userId) await deleteDocument(doc.id);
+    }
+    for (const map of [shareLinks, folders, tags, templates]) {
+      for (const item of [...map.values()]) {
+        if (item.user_id === userId) map.delete(item.id);
+      }
+    }
+    for (let i = usage.length - 1; i >= 0; i--) {
+      if (usage[i].user_id === userId) usage.splice(i, 1);
+    }
+    users.delete(userId);
+  }
+
+  // Activity totals for a user
+  function withStats(user: UserRecord): UserStats {
+    const sessionIds = new Set([...sessions.values()].filter((session) => session.user_id === user.id).map((session) => session.id));
+    const userUsage = usage.filter((entry) => entry.user_id === user.id);
+    return {
+      ...toUser(user),
+      session_count: sessionIds.size,
+      message_count: [...messages.values()].filter((msg) => sessionIds.has(msg.session_id)).length,
+      total_tokens: userUsage.reduce((total, entry) => total + entry.prompt_tokens + entry.completion_tokens, 0),
+      last_active_at: userUsage.length > 0 ? userUsage[userUsage.length - 1].created_at : null,
+    };
+  }
+
+  // Users whose username contains `query` (every user when it's empty) with their activity totals, newest first
+  async function searchUsers(query: string, before: number | null = null, limit: number | null = null): Promise<UserStats[]> {
+    const needle = query.toLowerCase();
+    return [...users.values()]
+      .filter((user) => user.username.toLowerCase().includes(needle) && (before === null || user.id < before))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit ?? undefined)
+      .map(withStats);
+  }
+
+  // Activity totals for one user
+  async function getUserStats(userId: number): Promise<UserStats | null> {
+    const user = users.get(userId);
+    return user ? withStats(user) : null;
+  }
+
+  // A user's sessions with their message counts, archived ones included, newest first
+  async function getUserSessionStats(userId: number): Promise<SessionStats[]> {
+    return [...sessions.values()]
+      .filter((session) => session.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+      .map(({ id, title, archived, created_at }) => ({
+        id,
+        title,
+        archived,
+        message_count: [...messages.values()].filter((msg) => msg.session_id === id).length,
+        created_at,
+      }));
+  }
+
+  // Creates a new chat session
+  async function createSession(userId: number, title: string = 'New Chat'): Promise<Session> {
+    const session: Session = {
+      id: nextId.session++,
+      user_id: userId,
+      title,
+      model: null,
+      system_prompt: null,
+      temperature: null,
+      max_tokens: null,
+      retrieval_enabled: false,
+      title_edited: false,
+      folder_id: null,
+      pinned: false,
+      archived: false,
+      tag_ids: [],
+      active_message_id: null,
+      created_at: now(),
+    };
+    sessions.set(session.id, session);
+    return { ...session };
+  }
+
+  // Returns a single session by id
+  async function getSession(sessionId: number): Promise<Session | null> {
+    const session = sessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  // Returns a user's sessions matching a filter, pinned first and then newest first
+  // `before` is the sort key of the last session already loaded
+  async function getUserSessions(userId: number, filter: SessionFilter, before: SessionCursor | null = null, limit?: number): Promise<Session[]> {
+    const listOrder = (a: SessionCursor, b: SessionCursor) => Number(b.pinned) - Number(a.pinned) || b.created_at.localeCompare(a.created_at) || b.id - a.id;
+    const matches = (session: Session) => session.user_id === userId
+      && session.archived === (filter.archived ?? false)
+      && (filter.folderId === undefined || session.folder_id === filter.folderId)
+      && (filter.tagId === undefined || session.tag_ids.includes(filter.tagId));
+    return [...sessions.values()]
+      .filter((session) => matches(session) && (!before || listOrder(before, session) < 0))
+      .sort(listOrder)
+      .slice(0, limit)
+      .map((session) => ({ ...session }));
+  }
+
+  // Sets an automatic title; returns null without changing anything when the user has renamed the session
+  async function updateSessionTitle(sessionId: number, title: string): Promise<Session | null> {
+    const session = sessions.get(sessionId);
+    if (!session || session.title_edited) return null;
+    session.title = title;
+    return { ...session };
+  }
+
+  // Sets a title chosen by the user, which automatic titles never replace
+  async function renameSession(sessionId: number, title: string): Promise<Session> {
+    const session = sessions.get(sessionId)!;
+    Object.assign(session, { title, title_edited: true });
+    return { ...session };
+  }
+
+  // Replaces a session's generation settings
+  async function updateSessionSettings(sessionId: number, settings: SessionSettings): Promise<Session> {
+    const session = sessions.get(sessionId)!;
+    Object.assign(session, {
+      model: settings.model,
+      system_prompt: settings.system_prompt,
+      temperature: settings.temperature,
+      max_tokens: settings.max_tokens,
+      retrieval_enabled: settings.retrieval_enabled,
+    });
+    return { ...session };
+  }
+
+  // Replaces a session's folder, pin, archive flag and tags
+  async function updateSessionOrganization(sessionId: number, organization: SessionOrganization): Promise<Session> {
+    const session = sessions.get(sessionId)!;
+    Object.assign(session, {
+      folder_id: organization.folder_id,
+      pinned: organization.pinned,
+      archived: organization.archived,
+      tag_ids: [...organization.tag_ids],
+    });
+    return { ...session };
+  }
+
+  // Deletes a session
+  async function deleteSession(sessionId: number): Promise<void> {
+    await clearSessionMessages(sessionId);
+    sessions.delete(sessionId);
+    for (const link of [...shareLinks.values()]) {
+      if (link.session_id === sessionId) shareLinks.delete(link.id);
+    }
+    for (const entry of usage) {
+      if (entry.session_id === sessionId) entry.session_id = null;
+    }
+  }
+
+  const byName = (a: { id: number; name: string }, b: { id: number; name: string }) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()) || a.id - b.id;
+
+  // Returns a user's folders, by name
+  async function getUserFolders(userId: number): Promise<Folder[]> {
+    return [...folders.values()].filter((folder) => folder.user_id === userId).sort(byName).map((folder) => ({ ...folder }));
+  }
+
+  // Returns a folder by id
+  async function getFolder(folderId: number): Promise<Folder | null> {
+    const folder = folders.get(folderId);
+    return folder ? { ...folder } : null;
+  }
+
+  // Creates a folder
+  async function createFolder(userId: number, name: string): Promise<Folder> {
+    const folder: Folder = { id: nextId.folder++, user_id: userId, name, created_at: now() };
+    folders.set(folder.id, folder);
+    return { ...folder };
+  }
+
+  // Renames a folder
+  async function renameFolder(folderId: number, name: string): Promise<Folder> {
+    const folder = folders.get(folderId)!;
+    folder.name = name;
+    return { ...folder };
+  }
+
+  // Deletes a folder; its sessions are moved out of it
+  async function deleteFolder(folderId: number): Promise<void> {
+    folders.delete(folderId);
+    for (const session of sessions.values()) {
+      if (session.folder_id === folderId) session.folder_id = null;
+    }
+  }
+
+  // Returns a user's tags, by name
+  async function getUserTags(userId: number): Promise<Tag[]> {
+    return [...tags.values()].filter((tag) => tag.user_id === userId).sort(byName).map((tag) => ({ ...tag }));
+  }
+
+  // Returns a tag by id
+  async function getTag(tagId: number): Promise<Tag | null> {
+    const tag = tags.get(tagId);
+    return tag ? { ...tag } : null;
+  }
+
+  // Creates a tag
+  async function createTag(userId: number, name: string): Promise<Tag> {
+    const tag: Tag = { id: nextId.tag++, user_id: userId, name, created_at: now() };
+    tags.set(tag.id, tag);
+    return { ...tag };
+  }
+
+  // Renames a tag
+  async function renameTag(tagId: number, name: string): Promise<Tag> {
+    const tag = tags.get(tagId)!;
+    tag.name = name;
+    return { ...tag };
+  }
+
+  // Deletes a tag and removes it from every session
+  async function deleteTag(tagId: number): Promise<void> {
+    tags.delete(tagId);
+    for (const session of sessions.values()) {
+      session.tag_ids = session.tag_ids.filter((id) => id !== tagId);
+    }
+  }
+
+  // Returns a user's prompt templates, by name
+  async function getUserTemplates(userId: number): Promise<PromptTemplate[]> {
+    return [...templates.values()].filter((template) => template.user_id === userId).sort(byName).map((template) => ({ ...template }));
+  }
+
+  // Returns a prompt template by id
+  async function getTemplate(templateId: number): Promise<PromptTemplate | null> {
+    const template = templates.get(templateId);
+    return template ? { ...template } : null;
+  }
+
+  // Creates a prompt template
+  async function createTemplate(userId: number, fields: PromptTemplateFields): Promise<PromptTemplate> {
+    const template: PromptTemplate = { id: nextId.template++, user_id: userId, ...fields, created_at: now(), updated_at: now() };
+    templates.set(template.id, template);
+    return { ...template };
+  }
+
+  // Replaces a prompt template's name, description and content
+  async function updateTemplate(templateId: number, fields: PromptTemplateFields): Promise<PromptTemplate> {
+    const template = templates.get(templateId)!;
+    Object.assign(template, fields, { updated_at: now() });
+    return { ...template };
+  }
+
+  // Deletes a prompt template
+  async function deleteTemplate(templateId: number): Promise<void> {
+    templates.delete(templateId);
+  }
+
+  // Saves a message under a parent and makes it the tip of the session's selected branch
+  async function saveMessage(sessionId: number, role: MessageRole, content: string, parentId: number | null, { createdAt, citations, toolCall, status, error, model }: SaveMessageOptions = {}): Promise<Message> {
+    const message: Message = {
+      id: nextId.message++,
+      session_id: sessionId,
+      parent_id: parentId,
+      role,
+      content,
+      citations: citations ?? null,
+      tool_call: toolCall ?? null,
+      status: status ?? 'complete',
+      error: error ?? null,
+      model: model ?? null,
+      created_at: createdAt ? new Date(createdAt).toISOString() : now(),
+    };
+    messages.set(message.id, message);
+    await setActiveMessage(sessionId, message.id);
+    return { ...message };
+  }
+
+  // Returns every message in a session, across all branches, oldest first
+  async function getSessionTree(sessionId: number): Promise<Message[]> {
+    // Map iteration follows insertion order, which is id order
+    return [...messages.values()]
+      .filter((msg) => msg.session_id === sessionId)
+      .map((msg) => ({ ...msg }));
+  }
+
+  // Returns a message by id
+  async function getMessage(messageId: number): Promise<Message | null> {
+    const message = messages.get(messageId);
+    return message ? { ...message } : null;
+  }
+
+  // Returns the branch from the root down to a message (inclusive), root first
+  // With a limit, only the `limit` messages closest to that message are returned
+  async function getMessagePath(sessionId: number, messageId: number, limit: number = Infinity): Promise<ThreadMessage[]> {
+    const path: ThreadMessage[] = [];
+    let current = messages.get(messageId);
+    while (current && current.session_id === sessionId && path.length < limit) {
+      const parentId = current.parent_id;
+      const siblingIds = [...messages.values()]
+        .filter((msg) => msg.session_id === sessionId && msg.parent_id === parentId)
+        .map((msg) => msg.id);
+      path.unshift({ ...current, sibling_ids: siblingIds });
+      current = parentId === null ? undefined : messages.get(parentId);
+    }
+    return path;
+  }
+
+  // Makes a message the tip of the session's selected branch
+  async function setActiveMessage(sessionId: number, messageId: number): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (session) session.active_message_id = messageId;
+  }
+
+  // Clears all messages in a session (and the summary and attachments that belong to them)
+  async function clearSessionMessages(sessionId: number): Promise<void> {
+    for (const msg of [...messages.values()]) {
+      if (msg.session_id === sessionId) messages.delete(msg.id);
+    }
+    for (const attachment of [...attachments.values()]) {
+      if (attachment.session_id === sessionId) attachments.delete(attachment.id);
+    }
+    summaries.delete(sessionId);
+    const session = sessions.get(sessionId);
+    if (session) session.active_message_id = null;
+  }
+
+  const toAttachment = ({ content: _content, text: _text, ...attachment }: AttachmentFile & AttachmentText): Attachment => attachment;
+  const ofMessages = (messageIds: number[]) => [...attachments.values()]
+    .filter((attachment) => attachment.message_id !== null && messageIds.includes(attachment.message_id));
+
+  // Stores an uploaded file that isn't linked to a message yet
+  async function createAttachment({ session_id, filename, mime_type, content, text }: NewAttachment): Promise<Attachment> {
+    const attachment = { id: nextId.attachment++, session_id, message_id: null, filename, mime_type, size: content.length, content, text, created_at: now() };
+    attachments.set(attachment.id, attachment);
+    return toAttachment(attachment);
+  }
+
+  // Returns an attachment with its file content
+  async function getAttachment(attachmentId: number): Promise<AttachmentFile | null> {
+    const attachment = attachments.get(attachmentId);
+    if (!attachment) return null;
+    const { text: _text, ...file } = attachment;
+    return { ...file };
+  }
+
+  // Returns the attachments of the given messages, oldest first
+  async function getMessageAttachments(messageIds: number[]): Promise<Attachment[]> {
+    return ofMessages(messageIds).map(toAttachment);
+  }
+
+  // Returns a session's uploads that haven't been sent with a message yet
+  async function getPendingAttachments(sessionId: number): Promise<Attachment[]> {
+    return [...attachments.values()]
+      .filter((attachment) => attachment.session_id === sessionId && attachment.message_id === null)
+      .map(toAttachment);
+  }
+
+  // Same as getMessageAttachments, with the extracted text
+  async function getAttachmentTexts(messageIds: number[]): Promise<AttachmentText[]> {
+    return ofMessages(messageIds).map((attachment) => ({ ...toAttachment(attachment), text: attachment.text }));
+  }
+
+  // Links uploaded attachments to the message they were sent with
+  async function linkAttachments(attachmentIds: number[], messageId: number): Promise<void> {
+    for (const id of attachmentIds) {
+      const attachment = attachments.get(id);
+      if (attachment) attachment.message_id = messageId;
+    }
+  }
+
+  // Gives a message copies of another message's attachments (e.g. when it is edited)
+  async function copyAttachments(fromMessageId: number, toMessageId: number): Promise<void> {
+    for (const attachment of ofMessages([fromMessageId])) {
+      const copy = { ...attachment, id: nextId.attachment++, message_id: toMessageId, created_at: now() };
+      attachments.set(copy.id, copy);
+    }
+  }
+
+  // Deletes an attachment
+  async function deleteAttachment(attachmentId: number): Promise<void> {
+    attachments.delete(attachmentId);
+  }
+
+  // Stores a document and its embedded chunks (in chunk order)
+  async function createDocument(document: NewDocument, newChunks: NewChunk[]): Promise<LibraryDocument> {
+    const doc: LibraryDocument = { id: nextId.document++, ...document, chunk_count: newChunks.length, created_at: now() };
+    documents.set(doc.id, doc);
+    newChunks.forEach((chunk, index) => chunks.push({ ...chunk, id: nextId.chunk++, document_id: doc.id, chunk_index: index }));
+    return { ...doc };
+  }
+
+  // Returns a user's documents, newest first
+  async function getUserDocuments(userId: number): Promise<LibraryDocument[]> {
+    return [...documents.values()]
+      .filter((doc) => doc.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+      .map((doc) => ({ ...doc }));
+  }
+
+  // Returns a document by id
+  async function getDocument(documentId: number): Promise<LibraryDocument | null> {
+    const doc = documents.get(documentId);
+    return doc ? { ...doc } : null;
+  }
+
+  // Deletes a document and its chunks
+  async function deleteDocument(documentId: number): Promise<void> {
+    documents.delete(documentId);
+    for (let i = chunks.length - 1; i >= 0; i--) {
+      if (chunks[i].document_id === documentId) chunks.splice(i, 1);
+    }
+  }
+
+  // Brute-force cosine similarity over the user's chunks, best first; only chunks embedded by `model` are compared
+  async function searchDocumentChunks(userId: number, embedding: number[], model: string, limit: number): Promise<RetrievedChunk[]> {
+    const results: RetrievedChunk[] = [];
+    for (const chunk of chunks) {
+      const doc = documents.get(chunk.document_id)!;
+      if (doc.user_id !== userId || doc.embedding_model !== model) continue;
+      const { id, document_id, chunk_index, content } = chunk;
+      results.push({ id, document_id, filename: doc.filename, chunk_index, content, score: cosineSimilarity(embedding, chunk.embedding) });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  const withoutSnapshot = ({ messages: _messages, ...link }: SharedSnapshot): ShareLink => link;
+
+  // Stores a share link with its snapshot
+  async function createShareLink(link: NewShareLink): Promise<ShareLink> {
+    const stored: SharedSnapshot = { id: nextId.shareLink++, ...link, message_count: link.messages.length, created_at: now() };
+    shareLinks.set(stored.id, stored);
+    return withoutSnapshot(stored);
+  }
+
+  // Returns a user's share links (without snapshots), newest first
+  async function getUserShareLinks(userId: number): Promise<ShareLink[]> {
+    return [...shareLinks.values()]
+      .filter((link) => link.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+      .map(withoutSnapshot);
+  }
+
+  // Returns a share link by id, without its snapshot
+  async function getShareLink(shareId: number): Promise<ShareLink | null> {
+    const link = shareLinks.get(shareId);
+    return link ? withoutSnapshot(link) : null;
+  }
+
+  // Returns a share link and its snapshot by token, expired or not
+  async function getSharedSnapshot(token: string): Promise<SharedSnapshot | null> {
+    for (const link of shareLinks.values()) {
+      if (link.token === token) return { ...link };
+    }
+    return null;
+  }
+
+  // Deletes a share link, which revokes it
+  async function deleteShareLink(shareId: number): Promise<void> {
+    shareLinks.delete(shareId);
+  }
+
+  // Returns the rolling summary for a session, if one exists
+  async function getSessionSummary(sessionId: number): Promise<SessionSummary | null> {
+    const summary = summaries.get(sessionId);
+    return summary ? { ...summary } : null;
+  }
+
+  // Creates or replaces the rolling summary for a session
+  async function saveSessionSummary(sessionId: number, summary: string, throughMessageId: number): Promise<void> {
+    summaries.set(sessionId, { session_id: sessionId, summary, through_message_id: throughMessageId, updated_at: now() });
+  }
+
+  // Case-insensitive search where every term must appear; rank is the share of the text made up of matches
+  // Tool results are left out
+  async function searchUserContent(userId: number, query: string, limit: number = 20): Promise<SearchResult[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const results: SearchResult[] = [];
+    const consider = (text: string, hit: Omit<SearchResult, 'snippet' | 'rank'>) => {
+      const lower = text.toLowerCase();
+      if (!terms.every((term) => lower.includes(term))) return;
+      const matched = terms.reduce((total, term) => total + lower.split(term).length - 1, 0);
+      results.push({ ...hit, snippet: highlight(text, terms), rank: matched / Math.max(1, lower.split(/\s+/).length) });
+    };
+
+    for (const session of sessions.values()) {
+      if (session.user_id !== userId) continue;
+      consider(session.title, { session_id: session.id, session_title: session.title, message_id: null, role: null, created_at: session.created_at });
+    }
+    for (const msg of messages.values()) {
+      const session = sessions.get(msg.session_id);
+      if (session?.user_id !== userId || msg.role === 'tool') continue;
+      consider(msg.content, { session_id: session.id, session_title: session.title, message_id: msg.id, role: msg.role, created_at: msg.created_at });
+    }
+
+    return results
+      .sort((a, b) => b.rank - a.rank || b.created_at.localeCompare(a.created_at))
+      .slice(0, limit);
+  }
+
+  // Records the tokens and latency of one LLM call
+  async function recordUsage(entry: UsageEntry): Promise<void> {
+    usage.push({ ...entry, created_at: now() });
+  }
+
+  // Returns a user's usage per model since a point in time
+  async function getUsageByModel(userId: number, since: string): Promise<UsageTotals[]> {
+    const sinceTime = Date.parse(since);
+    const totals = new Map<string, UsageTotals>();
+    for (const entry of usage) {
+      if (entry.user_id !== userId || Date.parse(entry.created_at) < sinceTime) continue;
+      const total = totals.get(entry.model) ?? { model: entry.model, requests: 0, prompt_tokens: 0, completion_tokens: 0 };
+      total.requests++;
+      total.prompt_tokens += entry.prompt_tokens;
+      total.completion_tokens += entry.completion_tokens;
+      totals.set(entry.model, total);
+    }
+    return [...totals.values()].sort((a, b) => a.model.localeCompare(b.model));
+  }
+
+  // Appends an entry to the admin audit log
+  async function recordAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+    const saved: AuditEntry = { id: nextId.audit++, ...entry, created_at: now() };
+    auditLog.push(saved);
+    return { ...saved };
+  }
+
+  // Returns audit log entries newest first, optionally only those about one user
+  async function getAuditLog(targetUserId: number | null, before: number | null = null, limit: number | null = null): Promise<AuditEntry[]> {
+    return auditLog
+      .filter((entry) => (targetUserId === null || entry.target_user_id === targetUserId) && (before === null || entry.id < before))
+      .reverse()
+      .slice(0, limit ?? undefined)
+      .map((entry) => ({ ...entry }));
+  }
+
+  return {
+    initDatabase,
+    getUserByUsername,
+    getUserById,
+    createUser,
+    setUserPassword,
+    setUserRole,
+    setUserDisabled,
+    deleteUser,
+    searchUsers,
+    getUserStats,
+    getUserSessionStats,
+    createSession,
+    getSession,
+    getUserSessions,
+    updateSessionTitle,
+    renameSession,
+    updateSessionSettings,
+    updateSessionOrganization,
+    deleteSession,
+    getUserFolders,
+    getFolder,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    getUserTags,
+    getTag,
+    createTag,
+    renameTag,
+    deleteTag,
+    getUserTemplates,
+    getTemplate,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    saveMessage,
+    getSessionTree,
+    getMessage,
+    getMessagePath,
+    setActiveMessage,
+    clearSessionMessages,
+    createAttachment,
+    getAttachment,
+    getMessageAttachments,
+    getPendingAttachments,
+    getAttachmentTexts,
+    linkAttachments,
+    copyAttachments,
+    deleteAttachment,
+    createDocument,
+    getUserDocuments,
+    getDocument,
+    deleteDocument,
+    searchDocumentChunks,
+    createShareLink,
+    getUserShareLinks,
+    getShareLink,
+    getSharedSnapshot,
+    deleteShareLink,
+    getSessionSummary,
+    saveSessionSummary,
+    searchUserContent,
+    recordUsage,
+    getUsageByModel,
+    recordAuditEntry,
+    getAuditLog,
+  };
+}
+
+// Wraps term matches in highlight markers, trimmed to a window around the first match
+function highlight(text: string, terms: string[]): string {
+  const SNIPPET_RADIUS = 120;
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0));
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const marked = text.slice(start, end).replace(new RegExp(`(${escaped.join('|')})`, 'gi'), `${HIGHLIGHT_START}$1${HIGHLIGHT_END}`);
+  return `${start > 0 ? '…' : ''}${marked}${end < text.length ? '…' : ''}`;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import { migrateUp, migrationStatus, rollback } from './migrations.js';
+dotenv.config();
+
+// Migration CLI: npm run migrate -- up | status | down [steps]
+const USAGE = 'Usage: npm run migrate -- up | status | down [steps]';
+
+async function main(): Promise<void> {
+    const databaseUrl = process.env.DATABASE_URL;
+    if (!databaseUrl) throw new Error('DATABASE_URL is not set');
+
+    const [command = 'up', arg] = process.argv.slice(2);
+    switch (command) {
+        case 'up': {
+            const applied = await migrateUp(databaseUrl);
+            console.log(applied.length ? `✅ Applied ${applied.length} migration(s)` : '✅ Database is up to date');
+            break;
+        }
+        case 'status': {
+            for (const status of await migrationStatus(databaseUrl)) {
+                const version = String(status.version).padStart(4, '0');
+                console.log(`${status.state.padEnd(8)} ${version}_${status.name}${status.applied_at ? `  (${status.applied_at})` : ''}`);
+            }
+            break;
+        }
+        case 'down': {
+            const steps = arg === undefined ? 1 : Number(arg);
+            if (!Number.isInteger(steps) || steps < 1) throw new Error('Steps must be a positive integer');
+            const reverted = await rollback(databaseUrl, steps);
+            console.log(`✅ Rolled back ${reverted.length} migration(s)`);
+            break;
+        }
+        default:
+            throw new Error(USAGE);
+    }
+}
+
+main().catch((error) => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+});
@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import { Pool, neonConfig, type PoolClient } from '@neondatabase/serverless';
+import ws from 'ws';
+
+// Migrations need a real session (transactions, advisory lock), so they use the WebSocket driver
+// rather than one-shot HTTP queries; Node 20 has no global WebSocket
+neonConfig.webSocketConstructor = ws;
+
+// Resolves to backend/migrations from both src/ (tsx) and dist/ (compiled)
+const MIGRATIONS_DIR = new URL('../migrations/', import.meta.url);
+
+// Files are named <version>_<name>.sql, e.g. 0001_initial_schema.sql
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+const SECTION_PATTERN = /^--\s*migrate:(up|down)\s*$/m;
+
+// Arbitrary key shared by every replica so only one of them migrates at a time
+const MIGRATION_LOCK_KEY = 4_120_711;
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: string;
+    down: string;
+    // sha256 of the whole file; applied migrations must not change afterwards
+    checksum: string;
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    // pending: not applied yet; modified: file changed since it was applied; missing: applied but the file is gone
+    state: 'applied' | 'pending' | 'modified' | 'missing';
+    applied_at: string | null;
+}
+
+interface AppliedMigration {
+    version: number;
+    name: string;
+    checksum: string;
+    applied_at: string;
+}
+
+// Splits a migration file into its "-- migrate:up" and "-- migrate:down" sections
+function parseMigration(file: string, source: string): Pick<Migration, 'up' | 'down'> {
+    const parts = source.split(SECTION_PATTERN);
+    const sections: Record<string, string> = {};
+    for (let i = 1; i < parts.length; i += 2) {
+        if (parts[i] in sections) throw new Error(`${file}: duplicate "-- migrate:${parts[i]}" section`);
+        sections[parts[i]] = parts[i + 1].trim();
+    }
+    if (!sections.up) throw new Error(`${file}: missing "-- migrate:up" section`);
+    return { up: sections.up, down: sections.down ?? '' };
+}
+
+// Reads every migration file, ordered by version
+export async function loadMigrations(): Promise<Migration[]> {
+    const migrations: Migration[] = [];
+    for (const file of await readdir(MIGRATIONS_DIR)) {
+        const match = FILE_PATTERN.exec(file);
+        if (!match) continue;
+
+        const source = await readFile(new URL(file, MIGRATIONS_DIR), 'utf8');
+        const version = Number(match[1]);
+        if (migrations.some((migration) => migration.version === version)) {
+            throw new Error(`Two migrations share version ${version}`);
+        }
+        migrations.push({
+            version,
+            name: match[2],
+            ...parseMigration(file, source),
+            checksum: crypto.createHash('sha256').update(source).digest('hex'),
+        });
+    }
+    return migrations.sort((a, b) => a.version - b.version);
+}
+
+function label(migration: { version: number; name: string }): string {
+    return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+// Runs fn on a dedicated connection while holding the migration lock; other callers wait their turn
+async function withMigrationLock<T>(databaseUrl: string, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const pool = new Pool({ connectionString: databaseUrl });
+    const client = await pool.connect();
+    try {
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+        try {
+            await client.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                checksum TEXT NOT NULL,
+                applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )`);
+            return await fn(client);
+        } finally {
+            await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+        }
+    } finally {
+        client.release();
+        await pool.end();
+    }
+}
+
+async function getApplied(client: PoolClient): Promise<AppliedMigration[]> {
+    const result = await client.query(`SELECT version, name, checksum, to_char(applied_at, 'YYYY-MM-DD HH24:MI:SS') AS applied_at FROM schema_migrations ORDER BY version`);
+    return result.rows as AppliedMigration[];
+}
+
+// Runs a migration section and records the change in schema_migrations, all in one transaction
+async function runInTransaction(client: PoolClient, statements: string, record: () => Promise<unknown>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+        if (statements) await client.query(statements);
+        await record();
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    }
+}
+
+// Compares the files with what the database has applied
+function compare(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+    const files = new Map(migrations.map((migration) => [migration.version, migration]));
+    const statuses: MigrationStatus[] = applied.map((row) => {
+        const file = files.get(row.version);
+        const state = !file ? 'missing' : file.checksum !== row.checksum ? 'modified' : 'applied';
+        return { version: row.version, name: row.name, state, applied_at: row.applied_at };
+    });
+    for (const migration of migrations) {
+        if (!applied.some((row) => row.version === migration.version)) {
+            statuses.push({ version: migration.version, name: migration.name, state: 'pending', applied_at: null });
+        }
+    }
+    return statuses.sort((a, b) => a.version - b.version);
+}
+
+// Lists every known migration and whether it has been applied
+export async function migrationStatus(databaseUrl: string): Promise<MigrationStatus[]> {
+    const migrations = await loadMigrations();
+    return withMigrationLock(databaseUrl, async (client) => compare(migrations, await getApplied(client)));
+}
+
+// Applies pending migrations in order and returns them
+// Refuses to run if an applied migration was edited or deleted, or if a pending one is older than the latest applied
+export async function migrateUp(databaseUrl: string): Promise<Migration[]> {
+    const migrations = await loadMigrations();
+    return withMigrationLock(databaseUrl, async (client) => {
+        const applied = await getApplied(client);
+        const statuses = compare(migrations, applied);
+
+        const broken = statuses.find((status) => status.state === 'modified' || status.state === 'missing');
+        if (broken) {
+            throw new Error(`Migration ${label(broken)} is ${broken.state === 'modified' ? 'modified since it was applied' : 'applied but its file is missing'}`);
+        }
+        const latest = applied[applied.length - 1]?.version ?? 0;
+        const pending = migrations.filter((migration) => statuses.some((status) => status.version === migration.version && status.state === 'pending'));
+        const outOfOrder = pending.find((migration) => migration.version < latest);
+        if (outOfOrder) throw new Error(`Migration ${label(outOfOrder)} is older than the latest applied migration`);
+
+        for (const migration of pending) {
+            await runInTransaction(client, migration.up, () => client.query(
+                'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+                [migration.version, migration.name, migration.checksum],
+            ));
+            console.log(`⬆️  Applied migration ${label(migration)}`);
+        }
+        return pending;
+    });
+}
+
+// Reverts the latest `steps` applied migrations, newest first, and returns them
+export async function rollback(databaseUrl: string, steps: number = 1): Promise<Migration[]> {
+    const migrations = await loadMigrations();
+    return withMigrationLock(databaseUrl, async (client) => {
+        const targets = (await getApplied(client)).reverse().slice(0, steps);
+        const reverted: Migration[] = [];
+        for (const row of targets) {
+            const migration = migrations.find((candidate) => candidate.version === row.version);
+            if (!migration) throw new Error(`Cannot roll back ${label(row)}: its file is missing`);
+            if (migration.checksum !== row.checksum) throw new Error(`Cannot roll back ${label(row)}: it was modified since it was applied`);
+            if (!migration.down) throw new Error(`Cannot roll back ${label(row)}: it has no "-- migrate:down" section`);
+
+            await runInTransaction(client, migration.down, () => client.query('DELETE FROM schema_migrations WHERE version = $1', [row.version]));
+            console.log(`⬇️  Rolled back migration ${label(migration)}`);
+            reverted.push(migration);
+        }
+        return reverted;
+    });
+}
@@ -0,0 +1,544 @@
+import { neon } from '@neondatabase/serverless';
+import { migrateUp } from './migrations.js';
+import { HIGHLIGHT_START, HIGHLIGHT_END, type ChatStore, type User, type UserRecord, type Session, type SessionSettings, type SessionOrganization, type SessionFilter, type SessionCursor, type UserRole, type UserStats, type SessionStats, type AuditEntry, type NewAuditEntry, type Folder, type Tag, type PromptTemplate, type PromptTemplateFields, type Message, type MessageRole, type ThreadMessage, type SessionSummary, type SearchResult, type UsageEntry, type UsageTotals, type Attachment, type AttachmentText, type AttachmentFile, type NewAttachment, type SaveMessageOptions, type LibraryDocument, type NewDocument, type NewChunk, type RetrievedChunk, type ShareLink, type SharedSnapshot, type NewShareLink } from './store.js';
+
+// ChatStore backed by Postgres (Neon serverless driver)
+export function createPostgresStore(databaseUrl: string): ChatStore {
+  const sql = neon(databaseUrl);
+
+  // Brings the schema up to date (see migrations/); replicas starting together wait on a lock
+  async function initDatabase(): Promise<void> {
+    await migrateUp(databaseUrl);
+    console.log('✅ Database initialized');
+  }
+
+  // Finds a user by username, including the password hash
+  async function getUserByUsername(username: string): Promise<UserRecord | null> {
+    const result = await sql`SELECT id, username, role, disabled_at, password_hash, created_at FROM users WHERE username = ${username}`;
+    return (result[0] as UserRecord) ?? null;
+  }
+
+  // Finds a user by id
+  async function getUserById(userId: number): Promise<User | null> {
+    const result = await sql`SELECT id, username, role, disabled_at, created_at FROM users WHERE id = ${userId}`;
+    return (result[0] as User) ?? null;
+  }
+
+  // Creates a new user with a hashed password
+  async function createUser(username: string, passwordHash: string): Promise<User> {
+    const result = await sql`INSERT INTO users (username, password_hash) VALUES (${username}, ${passwordHash}) RETURNING id, username, role, disabled_at, created_at`;
+    return result[0] as User;
+  }
+
+  // Sets the password hash for a user
+  async function setUserPassword(userId: number, passwordHash: string): Promise<void> {
+    await sql`UPDATE users SET password_hash = ${passwordHash} WHERE id = ${userId}`;
+  }
+
+  // Gives a user the admin role or takes it away
+  async function setUserRole(userId: number, role: UserRole): Promise<User> {
+    const result = await sql`UPDATE users SET role = ${role} WHERE id = ${userId} RETURNING id, username, role, disabled_at, created_at`;
+    return result[0] as User;
+  }
+
+  // Disables or re-enables an account (keeps the original time when it's disabled again)
+  async function setUserDisabled(userId: number, disabled: boolean): Promise<User> {
+    const result = await sql`UPDATE users SET disabled_at = CASE WHEN ${disabled}::boolean THEN COALESCE(disabled_at, CURRENT_TIMESTAMP) END WHERE id = ${userId}
+      RETURNING id, username, role, disabled_at, created_at`;
+    return result[0] as User;
+  }
+
+  // Deletes an account; everything it owns goes with it (ON DELETE CASCADE)
+  async function deleteUser(userId: number): Promise<void> {
+    await sql`DELETE FROM users WHERE id = ${userId}`;
+  }
+
+  // Users whose username contains `query` (every user when it's empty) with their activity totals, newest first
+  // `before` is the id of the last user already loaded
+  async function searchUsers(query: string, before: number | null = null, limit: number | null = null): Promise<UserStats[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+    return await sql`SELECT u.id, u.username, u.role, u.disabled_at, u.created_at,
+        (SELECT COUNT(*) FROM sessions s WHERE s.user_id = u.id)::int AS session_count,
+        (SELECT COUNT(*) FROM messages m JOIN sessions s ON s.id = m.session_id WHERE s.user_id = u.id)::int AS message_count,
+        (SELECT COALESCE(SUM(prompt_tokens + completion_tokens), 0) FROM usage WHERE user_id = u.id)::int AS total_tokens,
+        (SELECT MAX(created_at) FROM usage WHERE user_id = u.id) AS last_active_at
+      FROM users u
+      WHERE u.username ILIKE ${pattern} AND (${before}::int IS NULL OR u.id < ${before})
+      ORDER BY u.id DESC LIMIT ${limit}` as UserStats[];
+  }
+
+  // Activity totals for one user
+  async function getUserStats(userId: number): Promise<UserStats | null> {
+    const result = await sql`SELECT u.id, u.username, u.role, u.disabled_at, u.created_at,
+        (SELECT COUNT(*) FROM sessions s WHERE s.user_id = u.id)::int AS session_count,
+        (SELECT COUNT(*) FROM messages m JOIN sessions s ON s.id = m.session_id WHERE s.user_id = u.id)::int AS message_count,
+        (SELECT COALESCE(SUM(prompt_tokens + completion_tokens), 0) FROM usage WHERE user_id = u.id)::int AS total_tokens,
+        (SELECT MAX(created_at) FROM usage WHERE user_id = u.id) AS last_active_at
+      FROM users u WHERE u.id = ${userId}`;
+    return (result[0] as UserStats) ?? null;
+  }
+
+  // A user's sessions with their message counts, archived ones included, newest first
+  async function getUserSessionStats(userId: number): Promise<SessionStats[]> {
+    return await sql`SELECT s.id, s.title, s.archived, s.created_at, (SELECT COUNT(*) FROM messages m WHERE m.session_id = s.id)::int AS message_count
+      FROM sessions s WHERE s.user_id = ${userId} ORDER BY s.created_at DESC, s.id DESC` as SessionStats[];
+  }
+
+  // Creates a new chat session
+  async function createSession(userId: number, title: string = 'New Chat'): Promise<Session> {
+    const result = await sql`INSERT INTO sessions (user_id, title) VALUES (${userId}, ${title}) RETURNING id, user_id, title, model, system_prompt, temperature, max_tokens, retrieval_enabled, title_edited, folder_id, pinned, archived, ARRAY(SELECT st.tag_id FROM session_tags st WHERE st.session_id = sessions.id ORDER BY st.tag_id) AS tag_ids, active_message_id, created_at`;
+    return result[0] as Session;
+  }
+
+  // Returns a single session by id
+  async function getSession(sessionId: number): Promise<Session | null> {
+    const result = await sql`SELECT id, user_id, title, model, system_prompt, temperature, max_tokens, retrieval_enabled, title_edited, folder_id, pinned, archived, ARRAY(SELECT st.tag_id FROM session_tags st WHERE st.session_id = sessions.id ORDER BY st.tag_id) AS tag_ids, active_message_id, created_at FROM sessions WHERE id = ${sessionId}`;
+    return (result[0] as Session) ?? null;
+  }
+
+  // Returns a user's sessions matching a filter, pinned first and then newest first
+  // `before` is the sort key of the last session already loaded
+  // created_at comes back with millisecond precision, so the cursor is compared at that precision too
+  async function getUserSessions(userId: number, filter: SessionFilter, before: SessionCursor | null = null, limit: number | null = null): Promise<Session[]> {
+    return await sql`SELECT id, user_id, title, model, system_prompt, temperature, max_tokens, retrieval_enabled, title_edited, folder_id, pinned, archived, ARRAY(SELECT st.tag_id FROM session_tags st WHERE st.session_id = sessions.id ORDER BY st.tag_id) AS tag_ids, active_message_id, created_at FROM sessions
+      WHERE user_id = ${userId} AND archived = ${filter.archived ?? false}
+        AND (NOT ${filter.folderId !== undefined}::boolean OR folder_id IS NOT DISTINCT FROM ${filter.folderId ?? null}::int)
+        AND (${filter.tagId ?? null}::int IS NULL OR EXISTS (SELECT 1 FROM session_tags t WHERE t.session_id = sessions.id AND t.tag_id = ${filter.tagId ?? null}))
+        AND (${before?.id ?? null}::int IS NULL OR (pinned, date_trunc('milliseconds', created_at), id) < (${before?.pinned ?? null}::boolean, ${before?.created_at ?? null}::timestamp, ${before?.id ?? null}::int))
+      ORDER BY pinned DESC, date_trunc('milliseconds', created_at) DESC, id DESC LIMIT ${limit}` as Session[];
+  }
+
+  // Sets an automatic title; returns null without changing anything when the user has renamed the session
+  async function updateSessionTitle(sessionId: number, title: string): Promise<Session | null> {
+    const result = await sql`UPDATE sessions SET title = ${title} WHERE id = ${sessionId} AND NOT title_edited
+      RETURNING id, user_id, title, model, system_prompt, temperature, max_tokens, retrieval_enabled, title_edited, folder_id, pinned, archived, ARRAY(SELECT st.tag_id FROM session_tags st WHERE st.session_id = sessions.id ORDER BY st.tag_id) AS tag_ids, active_message_id, created_at`;
+    return (result[0] as Session) ?? null;
+  }
+
+  // Sets a title chosen by the user, which automatic titles never replace
+  async function renameSession(sessionId: number, title: string): Promise<Session> {
+    const result = await sql`UPDATE sessions SET title = ${title}, title_edited = TRUE WHERE id = ${sessionId}
+      RETURNING id, user_id, title, model, system_prompt, temperature, max_tokens, retrieval_enabled, title_edited, folder_id, pinned, archived, ARRAY(SELECT st.tag_id FROM session_tags st WHERE st.session_id = sessions.id ORDER BY st.tag_id) AS tag_ids, active_message_id, created_at`;
+    return result[0] as Session;
+  }
+
+  // Replaces a session's generation settings
+  async function updateSessionSettings(sessionId: number, settings: SessionSettings): Promise<Session> {
+    const result = await sql`UPDATE sessions SET model = ${settings.model}, system_prompt = ${settings.system_prompt}, temperature = ${settings.temperature}, max_tokens = ${settings.max_tokens}, retrieval_enabled = ${settings.retrieval_enabled} WHERE id = ${sessionId} RETURNING id, user_id, title, model, system_prompt, temperature, max_tokens, retrieval_enabled, title_edited, folder_id, pinned, archived, ARRAY(SELECT st.tag_id FROM session_tags st WHERE st.session_id = sessions.id ORDER BY st.tag_id) AS tag_ids, active_message_id, created_at`;
+    return result[0] as Session;
+  }
+
+  // Replaces a session's folder, pin, archive flag and tags in one statement
+  // (the CTEs can't see each other's changes, so the saved tag ids are returned as given)
+  async function updateSessionOrganization(sessionId: number, organization: SessionOrganization): Promise<Session> {
+    const result = await sql`WITH removed AS (
+        DELETE FROM session_tags WHERE session_id = ${sessionId} AND NOT (tag_id = ANY(${organization.tag_ids}::int[]))
+      ), added AS (
+        INSERT INTO session_tags (session_id, tag_id) SELECT ${sessionId}, unnest(${organization.tag_ids}::int[]) ON CONFLICT DO NOTHING
+      )
+      UPDATE sessions SET folder_id = ${organization.folder_id}, pinned = ${organization.pinned}, archived = ${organization.archived} WHERE id = ${sessionId}
+      RETURNING id, user_id, title, model, system_prompt, temperature, max_tokens, retrieval_enabled, title_edited, folder_id, pinned, archived, ${organization.tag_ids}::int[] AS tag_ids, active_message_id, created_at`;
+    return result[0] as Session;
+  }
+
+  // Deletes a session
+  async function deleteSession(sessionId: number): Promise<void> {
+    await sql`DELETE FROM sessions WHERE id = ${sessionId}`;
+  }
+
+  // Returns a user's folders, by name
+  async function getUserFolders(userId: number): Promise<Folder[]> {
+    return await sql`SELECT id, user_id, name, created_at FROM folders WHERE user_id = ${userId} ORDER BY lower(name), id` as Folder[];
+  }
+
+  // Returns a folder by id
+  async function getFolder(folderId: number): Promise<Folder | null> {
+    const result = await sql`SELECT id, user_id, name, created_at FROM folders WHERE id = ${folderId}`;
+    return (result[0] as Folder) ?? null;
+  }
+
+  // Creates a folder
+  async function createFolder(userId: number, name: string): Promise<Folder> {
+    const result = await sql`INSERT INTO folders (user_id, name) VALUES (${userId}, ${name}) RETURNING id, user_id, name, created_at`;
+    return result[0] as Folder;
+  }
+
+  // Renames a folder
+  async function renameFolder(folderId: number, name: string): Promise<Folder> {
+    const result = await sql`UPDATE folders SET name = ${name} WHERE id = ${folderId} RETURNING id, user_id, name, created_at`;
+    return result[0] as Folder;
+  }
+
+  // Deletes a folder; its sessions are moved out of it (folder_id is ON DELETE SET NULL)
+  async function deleteFolder(folderId: number): Promise<void> {
+    await sql`DELETE FROM folders WHERE id = ${folderId}`;
+  }
+
+  // Returns a user's tags, by name
+  async function getUserTags(userId: number): Promise<Tag[]> {
+    return await sql`SELECT id, user_id, name, created_at FROM tags WHERE user_id = ${userId} ORDER BY lower(name), id` as Tag[];
+  }
+
+  // Returns a tag by id
+  async function getTag(tagId: number): Promise<Tag | null> {
+    const result = await sql`SELECT id, user_id, name, created_at FROM tags WHERE id = ${tagId}`;
+    return (result[0] as Tag) ?? null;
+  }
+
+  // Creates a tag
+  async function createTag(userId: number, name: string): Promise<Tag> {
+    const result = await sql`INSERT INTO tags (user_id, name) VALUES (${userId}, ${name}) RETURNING id, user_id, name, created_at`;
+    return result[0] as Tag;
+  }
+
+  // Renames a tag
+  async function renameTag(tagId: number, name: string): Promise<Tag> {
+    const result = await sql`UPDATE tags SET name = ${name} WHERE id = ${tagId} RETURNING id, user_id, name, created_at`;
+    return result[0] as Tag;
+  }
+
+  // Deletes a tag and removes it from every session
+  async function deleteTag(tagId: number): Promise<void> {
+    await sql`DELETE FROM tags WHERE id = ${tagId}`;
+  }
+
+  // Returns a user's prompt templates, by name
+  async function getUserTemplates(userId: number): Promise<PromptTemplate[]> {
+    return await sql`SELECT id, user_id, name, description, content, created_at, updated_at FROM prompt_templates WHERE user_id = ${userId} ORDER BY lower(name), id` as PromptTemplate[];
+  }
+
+  // Returns a prompt template by id
+  async function getTemplate(templateId: number): Promise<PromptTemplate | null> {
+    const result = await sql`SELECT id, user_id, name, description, content, created_at, updated_at FROM prompt_templates WHERE id = ${templateId}`;
+    return (result[0] as PromptTemplate) ?? null;
+  }
+
+  // Creates a prompt template
+  async function createTemplate(userId: number, { name, description, content }: PromptTemplateFields): Promise<PromptTemplate> {
+    const result = await sql`INSERT INTO prompt_templates (user_id, name, description, content) VALUES (${userId}, ${name}, ${description}, ${content})
+      RETURNING id, user_id, name, description, content, created_at, updated_at`;
+    return result[0] as PromptTemplate;
+  }
+
+  // Replaces a prompt template's name, description and content
+  async function updateTemplate(templateId: number, { name, description, content }: PromptTemplateFields): Promise<PromptTemplate> {
+    const result = await sql`UPDATE prompt_templates SET name = ${name}, description = ${description}, content = ${content}, updated_at = CURRENT_TIMESTAMP WHERE id = ${templateId}
+      RETURNING id, user_id, name, description, content, created_at, updated_at`;
+    return result[0] as PromptTemplate;
+  }
+
+  // Deletes a prompt template
+  async function deleteTemplate(templateId: number): Promise<void> {
+    await sql`DELETE FROM prompt_templates WHERE id = ${templateId}`;
+  }
+
+  // Saves a message under a parent and makes it the tip of the session's selected branch
+  // createdAt is only passed when restoring messages (e.g. imports); new messages use the current time
+  // citations are set on replies that drew on the document library, toolCall on tool messages,
+  // status and error on replies that were stopped or failed, model on replies
+  async function saveMessage(sessionId: number, role: MessageRole, content: string, parentId: number | null, { createdAt, citations, toolCall, status, error, model }: SaveMessageOptions = {}): Promise<Message> {
+    const result = await sql`INSERT INTO messages (session_id, parent_id, role, content, citations, tool_call, status, error, model, created_at)
+      VALUES (${sessionId}, ${parentId}, ${role}, ${content}, ${citations ? JSON.stringify(citations) : null}::jsonb, ${toolCall ? JSON.stringify(toolCall) : null}::jsonb, ${status ?? 'complete'}, ${error ?? null}, ${model ?? null}, COALESCE(${createdAt ?? null}::timestamp, CURRENT_TIMESTAMP))
+      RETURNING id, session_id, parent_id, role, content, citations, tool_call, status, error, model, created_at`;
+    const message = result[0] as Message;
+    await sql`UPDATE sessions SET active_message_id = ${message.id} WHERE id = ${sessionId}`;
+    return message;
+  }
+
+  // Returns every message in a session, across all branches, oldest first
+  async function getSessionTree(sessionId: number): Promise<Message[]> {
+    return await sql`SELECT id, session_id, parent_id, role, content, citations, tool_call, status, error, model, created_at FROM messages WHERE session_id = ${sessionId} ORDER BY id ASC` as Message[];
+  }
+
+  // Returns a message by id
+  async function getMessage(messageId: number): Promise<Message | null> {
+    const result = await sql`SELECT id, session_id, parent_id, role, content, citations, tool_call, status, error, model, created_at FROM messages WHERE id = ${messageId}`;
+    return (result[0] as Message) ?? null;
+  }
+
+  // Returns the branch from the root down to a message (inclusive), root first
+  // With a limit, only the `limit` messages closest to that message are returned
+  async function getMessagePath(sessionId: number, messageId: number, limit: number | null = null): Promise<ThreadMessage[]> {
+    return await sql`WITH RECURSIVE branch AS (
+        SELECT id, session_id, parent_id, role, content, citations, tool_call, status, error, model, created_at, 1 AS depth FROM messages WHERE id = ${messageId} AND session_id = ${sessionId}
+        UNION ALL
+        SELECT m.id, m.session_id, m.parent_id, m.role, m.content, m.citations, m.tool_call, m.status, m.error, m.model, m.created_at, b.depth + 1 FROM messages m
+        JOIN branch b ON m.id = b.parent_id WHERE ${limit}::int IS NULL OR b.depth < ${limit}
+      )
+      SELECT b.id, b.session_id, b.parent_id, b.role, b.content, b.citations, b.tool_call, b.status, b.error, b.model, b.created_at,
+        ARRAY(SELECT s.id FROM messages s WHERE s.session_id = b.session_id AND s.parent_id IS NOT DISTINCT FROM b.parent_id ORDER BY s.id) AS sibling_ids
+      FROM branch b ORDER BY b.depth DESC` as ThreadMessage[];
+  }
+
+  // Makes a message the tip of the session's selected branch
+  async function setActiveMessage(sessionId: number, messageId: number): Promise<void> {
+    await sql`UPDATE sessions SET active_message_id = ${messageId} WHERE id = ${sessionId}`;
+  }
+
+  // Clears all messages in a session (and the summary and attachments that belong to them)
+  async function clearSessionMessages(sessionId: number): Promise<void> {
+    await sql`DELETE FROM messages WHERE session_id = ${sessionId}`;
+    await sql`DELETE FROM session_summaries WHERE session_id = ${sessionId}`;
+    await sql`DELETE FROM attachments WHERE session_id = ${sessionId}`;
+  }
+
+  // Stores an uploaded file that isn't linked to a message yet
+  // Bytes travel as base64 so they don't depend on the driver's bytea handling
+  async function createAttachment(attachment: NewAttachment): Promise<Attachment> {
+    const result = await sql`INSERT INTO attachments (session_id, filename, mime_type, size, content, text)
+      VALUES (${attachment.session_id}, ${attachment.filename}, ${attachment.mime_type}, ${attachment.content.length}, decode(${attachment.content.toString('base64')}, 'base64'), ${attachment.text})
+      RETURNING id, session_id, message_id, filename, mime_type, size, created_at`;
+    return result[0] as Attachment;
+  }
+
+  // Returns an attachment with its file content
+  async function getAttachment(attachmentId: number): Promise<AttachmentFile | null> {
+    const result = await sql`SELECT id, session_id, message_id, filename, mime_type, size, created_at, encode(content, 'base64') AS content
+      FROM attachments WHERE id = ${attachmentId}`;
+    if (!result[0]) return null;
+    return { ...result[0], content: Buffer.from(result[0].content, 'base64') } as AttachmentFile;
+  }
+
+  // Returns the attachments of the given messages, oldest first
+  async function getMessageAttachments(messageIds: number[]): Promise<Attachment[]> {
+    return await sql`SELECT id, session_id, message_id, filename, mime_type, size, created_at FROM attachments
+      WHERE message_id = ANY(${messageIds}::int[]) ORDER BY id` as Attachment[];
+  }
+
+  // Returns a session's uploads that haven't been sent with a message yet
+  async function getPendingAttachments(sessionId: number): Promise<Attachment[]> {
+    return await sql`SELECT id, session_id, message_id, filename, mime_type, size, created_at FROM attachments
+      WHERE session_id = ${sessionId} AND message_id IS NULL ORDER BY id` as Attachment[];
+  }
+
+  // Same as getMessageAttachments, with the extracted text
+  async function getAttachmentTexts(messageIds: number[]): Promise<AttachmentText[]> {
+    return await sql`SELECT id, session_id, message_id, filename, mime_type, size, created_at, text FROM attachments
+      WHERE message_id = ANY(${messageIds}::int[]) ORDER BY id` as AttachmentText[];
+  }
+
+  // Links uploaded attachments to the message they were sent with
+  async function linkAttachments(attachmentIds: number[], messageId: number): Promise<void> {
+    await sql`UPDATE attachments SET message_id = ${messageId} WHERE id = ANY(${attachmentIds}::int[])`;
+  }
+
+  // Gives a message copies of another message's attachments (e.g. when it is edited)
+  async function copyAttachments(fromMessageId: number, toMessageId: number): Promise<void> {
+    await sql`INSERT INTO attachments (session_id, message_id, filename, mime_type, size, content, text)
+      SELECT session_id, ${toMessageId}, filename, mime_type, size, content, text FROM attachments WHERE message_id = ${fromMessageId} ORDER BY id`;
+  }
+
+  // Deletes an attachment
+  async function deleteAttachment(attachmentId: number): Promise<void> {
+    await sql`DELETE FROM attachments WHERE id = ${attachmentId}`;
+  }
+
+  // Stores a document and its embedded chunks (in chunk order) in one statement
+  // Vectors are sent in pgvector's text form ("[0.1,0.2,...]") and cast on insert
+  async function createDocument(document: NewDocument, chunks: NewChunk[]): Promise<LibraryDocument> {
+    const result = await sql`WITH doc AS (
+        INSERT INTO documents (user_id, filename, mime_type, size, chunk_count, embedding_model)
+        VALUES (${document.user_id}, ${document.filename}, ${document.mime_type}, ${document.size}, ${chunks.length}, ${document.embedding_model})
+        RETURNING id, user_id, filename, mime_type, size, chunk_count, embedding_model, created_at
+      ), inserted AS (
+        INSERT INTO document_chunks (document_id, user_id, chunk_index, content, embedding)
+        SELECT doc.id, doc.user_id, c.ordinality - 1, c.content, c.embedding::vector
+        FROM doc, unnest(${chunks.map((chunk) => chunk.content)}::text[], ${chunks.map((chunk) => toVector(chunk.embedding))}::text[]) WITH ORDINALITY AS c(content, embedding, ordinality)
+      )
+      SELECT * FROM doc`;
+    return result[0] as LibraryDocument;
+  }
+
+  // Returns a user's documents, newest first
+  async function getUserDocuments(userId: number): Promise<LibraryDocument[]> {
+    return await sql`SELECT id, user_id, filename, mime_type, size, chunk_count, embedding_model, created_at FROM documents
+      WHERE user_id = ${userId} ORDER BY created_at DESC, id DESC` as LibraryDocument[];
+  }
+
+  // Returns a document by id
+  async function getDocument(documentId: number): Promise<LibraryDocument | null> {
+    const result = await sql`SELECT id, user_id, filename, mime_type, size, chunk_count, embedding_model, created_at FROM documents WHERE id = ${documentId}`;
+    return (result[0] as LibraryDocument) ?? null;
+  }
+
+  // Deletes a document and its chunks
+  async function deleteDocument(documentId: number): Promise<void> {
+    await sql`DELETE FROM documents WHERE id = ${documentId}`;
+  }
+
+  // Returns the user's chunks closest to an embedding, best first; only chunks embedded by `model` are compared
+  // (<=> is pgvector's cosine distance)
+  async function searchDocumentChunks(userId: number, embedding: number[], model: string, limit: number): Promise<RetrievedChunk[]> {
+    return await sql`SELECT c.id, c.document_id, d.filename, c.chunk_index, c.content, 1 - (c.embedding <=> ${toVector(embedding)}::vector) AS score
+      FROM document_chunks c JOIN documents d ON d.id = c.document_id
+      WHERE c.user_id = ${userId} AND d.embedding_model = ${model}
+      ORDER BY c.embedding <=> ${toVector(embedding)}::vector LIMIT ${limit}` as RetrievedChunk[];
+  }
+
+  // Stores a share link with its snapshot
+  async function createShareLink(link: NewShareLink): Promise<ShareLink> {
+    const result = await sql`INSERT INTO share_links (token, session_id, user_id, title, messages, expires_at)
+      VALUES (${link.token}, ${link.session_id}, ${link.user_id}, ${link.title}, ${JSON.stringify(link.messages)}::jsonb, ${link.expires_at}::timestamptz)
+      RETURNING id, token, session_id, user_id, title, jsonb_array_length(messages) AS message_count, expires_at, created_at`;
+    return result[0] as ShareLink;
+  }
+
+  // Returns a user's share links (without snapshots), newest first
+  async function getUserShareLinks(userId: number): Promise<ShareLink[]> {
+    return await sql`SELECT id, token, session_id, user_id, title, jsonb_array_length(messages) AS message_count, expires_at, created_at FROM share_links
+      WHERE user_id = ${userId} ORDER BY created_at DESC, id DESC` as ShareLink[];
+  }
+
+  // Returns a share link by id, without its snapshot
+  async function getShareLink(shareId: number): Promise<ShareLink | null> {
+    const result = await sql`SELECT id, token, session_id, user_id, title, jsonb_array_length(messages) AS message_count, expires_at, created_at FROM share_links WHERE id = ${shareId}`;
+    return (result[0] as ShareLink) ?? null;
+  }
+
+  // Returns a share link and its snapshot by token, expired or not
+  async function getSharedSnapshot(token: string): Promise<SharedSnapshot | null> {
+    const result = await sql`SELECT id, token, session_id, user_id, title, jsonb_array_length(messages) AS message_count, messages, expires_at, created_at FROM share_links WHERE token = ${token}`;
+    return (result[0] as SharedSnapshot) ?? null;
+  }
+
+  // Deletes a share link, which revokes it
+  async function deleteShareLink(shareId: number): Promise<void> {
+    await sql`DELETE FROM share_links WHERE id = ${shareId}`;
+  }
+
+  // Returns the rolling summary for a session, if one exists
+  async function getSessionSummary(sessionId: number): Promise<SessionSummary | null> {
+    const result = await sql`SELECT session_id, summary, through_message_id, updated_at FROM session_summaries WHERE session_id = ${sessionId}`;
+    return (result[0] as SessionSummary) ?? null;
+  }
+
+  // Creates or replaces the rolling summary for a session
+  async function saveSessionSummary(sessionId: number, summary: string, throughMessageId: number): Promise<void> {
+    await sql`INSERT INTO session_summaries (session_id, summary, through_message_id) VALUES (${sessionId}, ${summary}, ${throughMessageId})
+      ON CONFLICT (session_id) DO UPDATE SET summary = EXCLUDED.summary, through_message_id = EXCLUDED.through_message_id, updated_at = CURRENT_TIMESTAMP`;
+  }
+
+  // Ranked full-text search over a user's session titles and message contents (tool results are left out)
+  async function searchUserContent(userId: number, query: string, limit: number = 20): Promise<SearchResult[]> {
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2`;
+    const [titles, messages] = await Promise.all([
+      sql`SELECT s.id AS session_id, s.title AS session_title, NULL AS message_id, NULL AS role,
+          ts_headline('english', s.title, q, ${headlineOptions}) AS snippet,
+          ts_rank(to_tsvector('english', s.title), q) AS rank, s.created_at
+        FROM sessions s, websearch_to_tsquery('english', ${query}) q
+        WHERE s.user_id = ${userId} AND to_tsvector('english', s.title) @@ q
+        ORDER BY rank DESC LIMIT ${limit}`,
+      sql`SELECT s.id AS session_id, s.title AS session_title, m.id AS message_id, m.role,
+          ts_headline('english', m.content, q, ${headlineOptions}) AS snippet,
+          ts_rank(to_tsvector('english', m.content), q) AS rank, m.created_at
+        FROM messages m JOIN sessions s ON s.id = m.session_id, websearch_to_tsquery('english', ${query}) q
+        WHERE s.user_id = ${userId} AND m.role <> 'tool' AND to_tsvector('english', m.content) @@ q
+        ORDER BY rank DESC, m.created_at DESC LIMIT ${limit}`,
+    ]);
+    return ([...titles, ...messages] as SearchResult[])
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+
+  // Records the tokens and latency of one LLM call
+  async function recordUsage(entry: UsageEntry): Promise<void> {
+    await sql`INSERT INTO usage (user_id, session_id, model, kind, prompt_tokens, completion_tokens, latency_ms)
+      VALUES (${entry.user_id}, ${entry.session_id}, ${entry.model}, ${entry.kind}, ${entry.prompt_tokens}, ${entry.completion_tokens}, ${entry.latency_ms})`;
+  }
+
+  // Returns a user's usage per model since a point in time
+  async function getUsageByModel(userId: number, since: string): Promise<UsageTotals[]> {
+    return await sql`SELECT model, COUNT(*)::int AS requests, SUM(prompt_tokens)::int AS prompt_tokens, SUM(completion_tokens)::int AS completion_tokens
+      FROM usage WHERE user_id = ${userId} AND created_at >= ${since}::timestamptz AT TIME ZONE 'UTC'
+      GROUP BY model ORDER BY model` as UsageTotals[];
+  }
+
+  // Appends an entry to the admin audit log
+  async function recordAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+    const result = await sql`INSERT INTO admin_audit_log (admin_id, admin_username, action, target_user_id, target_username, details)
+      VALUES (${entry.admin_id}, ${entry.admin_username}, ${entry.action}, ${entry.target_user_id}, ${entry.target_username}, ${JSON.stringify(entry.details)}::jsonb)
+      RETURNING id, admin_id, admin_username, action, target_user_id, target_username, details, created_at`;
+    return result[0] as AuditEntry;
+  }
+
+  // Returns audit log entries newest first, optionally only those about one user
+  // `before` is the id of the last entry already loaded
+  async function getAuditLog(targetUserId: number | null, before: number | null = null, limit: number | null = null): Promise<AuditEntry[]> {
+    return await sql`SELECT id, admin_id, admin_username, action, target_user_id, target_username, details, created_at FROM admin_audit_log
+      WHERE (${targetUserId}::int IS NULL OR target_user_id = ${targetUserId}) AND (${before}::int IS NULL OR id < ${before})
+      ORDER BY id DESC LIMIT ${limit}` as AuditEntry[];
+  }
+
+  return {
+    initDatabase,
+    getUserByUsername,
+    getUserById,
+    createUser,
+    setUserPassword,
+    setUserRole,
+    setUserDisabled,
+    deleteUser,
+    searchUsers,
+    getUserStats,
+    getUserSessionStats,
+    createSession,
+    getSession,
+    getUserSessions,
+    updateSessionTitle,
+    renameSession,
+    updateSessionSettings,
+    updateSessionOrganization,
+    deleteSession,
+    getUserFolders,
+    getFolder,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    getUserTags,
+    getTag,
+    createTag,
+    renameTag,
+    deleteTag,
+    getUserTemplates,
+    getTemplate,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    saveMessage,
+    getSessionTree,
+    getMessage,
+    getMessagePath,
+    setActiveMessage,
+    clearSessionMessages,
+    createAttachment,
+    getAttachment,
+    getMessageAttachments,
+    getPendingAttachments,
+    getAttachmentTexts,
+    linkAttachments,
+    copyAttachments,
+    deleteAttachment,
+    createDocument,
+    getUserDocuments,
+    getDocument,
+    deleteDocument,
+    searchDocumentChunks,
+    createShareLink,
+    getUserShareLinks,
+    getShareLink,
+    getSharedSnapshot,
+    deleteShareLink,
+    getSessionSummary,
+    saveSessionSummary,
+    searchUserContent,
+    recordUsage,
+    getUsageByModel,
+    recordAuditEntry,
+    getAuditLog,
+  };
+}
+
+// pgvector's text representation of a vector
+function toVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
@@ -0,0 +1,175 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+
+// dotenv is configured in index.ts
+
+// Generation limits a provider accepts; requested settings are clamped to these
+export interface ProviderLimits {
+    maxTokens: number;
+    minTemperature: number;
+    maxTemperature: number;
+}
+
+export interface LLMProvider {
+    id: string;
+    // Model ids this provider serves; the first one is the default
+    models: string[];
+    limits: ProviderLimits;
+    languageModel(modelId: string): LanguageModelV1;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+// Adds a provider to the registry (replaces one with the same id)
+export function registerProvider(provider: LLMProvider): void {
+    providers.set(provider.id, provider);
+}
+
+// Returns every registered provider
+export function listProviders(): LLMProvider[] {
+    return [...providers.values()];
+}
+
+// Returns the provider selected by LLM_PROVIDER (defaults to OpenRouter)
+export function getActiveProvider(): LLMProvider {
+    const id = process.env.LLM_PROVIDER || 'openrouter';
+    const provider = providers.get(id);
+    if (!provider) {
+        throw new Error(`Unknown LLM provider "${id}" (available: ${[...providers.keys()].join(', ')})`);
+    }
+    return provider;
+}
+
+// Resolves a model id against a provider, falling back to LLM_MODEL and then the provider default
+// modelId is a session's stored choice, already checked when it was saved; a model dropped from the provider's list
+// since then falls back to the default so the chat keeps working
+export function resolveModelId(provider: LLMProvider, modelId?: string): string {
+    if (modelId && provider.models.includes(modelId)) return modelId;
+    if (modelId) console.warn(`Model "${modelId}" is no longer available on provider "${provider.id}", using the default`);
+    const id = process.env.LLM_MODEL || provider.models[0];
+    if (!provider.models.includes(id)) {
+        throw new Error(`LLM_MODEL "${id}" is not available on provider "${provider.id}"`);
+    }
+    return id;
+}
+
+// Clamps requested generation settings to what the provider allows
+export function clampSettings(provider: LLMProvider, settings: { maxTokens: number; temperature: number }) {
+    const { maxTokens, minTemperature, maxTemperature } = provider.limits;
+    return {
+        maxTokens: Math.min(settings.maxTokens, maxTokens),
+        temperature: Math.min(Math.max(settings.temperature, minTemperature), maxTemperature),
+    };
+}
+
+// Splits a comma-separated env var into a list
+function listFromEnv(value: string | undefined, fallback: string[]): string[] {
+    const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+    return items?.length ? items : fallback;
+}
+
+// OpenRouter (hosted, OpenAI-compatible)
+registerProvider({
+    id: 'openrouter',
+    models: listFromEnv(process.env.OPENROUTER_MODELS, ['mistralai/mistral-7b-instruct:free']),
+    limits: { maxTokens: 4096, minTemperature: 0, maxTemperature: 2 },
+    languageModel(modelId) {
+        const openrouter = createOpenAI({
+            baseURL: 'https://openrouter.ai/api/v1',
+            apiKey: process.env.OPENROUTER_API_KEY!,
+        });
+        return openrouter(modelId);
+    },
+});
+
+// Any OpenAI-compatible server, e.g. Ollama (default URL) or llama.cpp
+registerProvider({
+    id: 'openai-compatible',
+    models: listFromEnv(process.env.OPENAI_COMPATIBLE_MODELS, ['llama3']),
+    limits: { maxTokens: 4096, minTemperature: 0, maxTemperature: 2 },
+    languageModel(modelId) {
+        const client = createOpenAI({
+            baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+            // Local servers usually ignore the key, but the client requires one
+            apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+            compatibility: 'compatible',
+        });
+        return client(modelId);
+    },
+});
+
+// Text of the last user message in a prompt
+function lastUserText(options: LanguageModelV1CallOptions): string {
+    const lastUser = [...options.prompt].reverse().find((message) => message.role === 'user');
+    if (!lastUser || lastUser.role !== 'user') return '';
+    return lastUser.content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+}
+
+type MockToolCall = NonNullable<Awaited<ReturnType<LanguageModelV1['doGenerate']>>['toolCalls']>[number];
+
+// A mock tool call requested by the last user message, e.g. `tool:calculator {"expression": "6*7"}`
+function mockToolCall(options: LanguageModelV1CallOptions): MockToolCall | null {
+    const last = options.prompt[options.prompt.length - 1];
+    const match = last?.role === 'user' ? /^tool:(\w+)\s*(.*)$/s.exec(lastUserText(options).trim()) : null;
+    if (!match || options.mode.type !== 'regular' || !options.mode.tools?.some((tool) => tool.name === match[1])) return null;
+    return { toolCallType: 'function', toolCallId: `mock-${Date.now()}`, toolName: match[1], args: match[2] || '{}' };
+}
+
+// Deterministic offline model: echoes the last user message, for tests and demos
+// It calls a tool when asked to (see mockToolCall), then echoes the tool's result
+function createMockModel(modelId: string): LanguageModelV1 {
+    const respond = (options: LanguageModelV1CallOptions) => {
+        const toolCall = mockToolCall(options);
+        const last = options.prompt[options.prompt.length - 1];
+        const text = toolCall ? ''
+            : last?.role === 'tool' ? `Mock reply to tool result: ${JSON.stringify(last.content.map((part) => part.result))}`
+            : `Mock reply to: "${lastUserText(options)}"`;
+        const usage = {
+            promptTokens: JSON.stringify(options.prompt).length,
+            completionTokens: text.length,
+        };
+        const rawCall = { rawPrompt: options.prompt, rawSettings: {} };
+        return { text, toolCall, usage, rawCall };
+    };
+
+    return {
+        specificationVersion: 'v1',
+        provider: 'mock',
+        modelId,
+        defaultObjectGenerationMode: undefined,
+
+        async doGenerate(options) {
+            const { text, toolCall, usage, rawCall } = respond(options);
+            if (toolCall) return { toolCalls: [toolCall], usage, rawCall, finishReason: 'tool-calls' };
+            return { text, usage, rawCall, finishReason: 'stop' };
+        },
+
+        async doStream(options) {
+            const { text, toolCall, usage, rawCall } = respond(options);
+            // Emit word by word so streaming clients see several deltas
+            // MOCK_STREAM_DELAY_MS slows this down, e.g. to try stopping a reply
+            const deltas = text.match(/\S+\s*/g) ?? [];
+            const delayMs = parseInt(process.env.MOCK_STREAM_DELAY_MS || '') || 0;
+            const stream = new ReadableStream<LanguageModelV1StreamPart>({
+                async start(controller) {
+                    for (const textDelta of deltas) {
+                        if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+                        if (options.abortSignal?.aborted) return controller.error(options.abortSignal.reason);
+                        controller.enqueue({ type: 'text-delta', textDelta });
+                    }
+                    if (toolCall) controller.enqueue({ type: 'tool-call', ...toolCall });
+                    controller.enqueue({ type: 'finish', finishReason: toolCall ? 'tool-calls' : 'stop', usage });
+                    controller.close();
+                },
+            });
+            return { stream, rawCall };
+        },
+    };
+}
+
+registerProvider({
+    id: 'mock',
+    models: ['mock-echo'],
+    limits: { maxTokens: 1000, minTemperature: 0, maxTemperature: 1 },
+    languageModel: createMockModel,
+});
@@ -0,0 +1,50 @@
+import type { NextFunction, Request, Response } from 'express';
+import { RateLimitError } from './errors.js';
+
+interface RateLimitOptions {
+    // Requests allowed per window; 0 disables the limiter
+    max: number;
+    windowMs: number;
+    // Groups requests, e.g. by IP or user; requests without a key are not limited
+    key: (req: Request) => string | undefined;
+    message: string;
+}
+
+interface Window {
+    count: number;
+    resetAt: number;
+}
+
+// Fixed-window rate limiter kept in process memory, so each replica counts on its own
+export function rateLimit({ max, windowMs, key, message }: RateLimitOptions) {
+    const windows = new Map<string, Window>();
+
+    // Forget finished windows so idle clients don't accumulate
+    setInterval(() => {
+        const now = Date.now();
+        for (const [id, window] of windows) {
+            if (window.resetAt <= now) windows.delete(id);
+        }
+    }, windowMs).unref();
+
+    return (req: Request, _res: Response, next: NextFunction) => {
+        const id = key(req);
+        if (max <= 0 || id === undefined) return next();
+
+        const now = Date.now();
+        let window = windows.get(id);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + windowMs };
+            windows.set(id, window);
+        }
+        window.count++;
+        if (window.count > max) return next(new RateLimitError(message, Math.ceil((window.resetAt - now) / 1000)));
+        next();
+    };
+}
+
+// Reads a limit from the environment; unset uses the fallback, 0 turns the limit off
+export function limitFromEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '');
+    return Number.isNaN(value) ? fallback : value;
+}
@@ -0,0 +1,94 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { getUserById, type Message, type Session } from './db.js';
+import { verifyToken } from './auth.js';
+
+// Changes pushed to every open tab of a user so they stay in sync without refetching
+export type RealtimeEvent =
+    | { type: 'session.created'; session: Session }
+    | { type: 'session.updated'; session: Session }
+    | { type: 'session.deleted'; session_id: number }
+    | { type: 'message.created'; message: Message }
+    | { type: 'messages.cleared'; session_id: number }
+    // Another branch was selected; message_id is the new leaf
+    | { type: 'branch.selected'; session_id: number; message_id: number }
+    // Folders or tags were created, renamed or deleted (deleting one also changes the sessions that used it)
+    | { type: 'organization.changed' }
+    | { type: 'templates.changed' };
+
+const EVENTS_PATH = '/api/events';
+const HEARTBEAT_MS = 30_000;
+const MAX_SOCKETS_PER_USER = 10;
+
+// Open sockets per user id; only this process's clients are reached (see README)
+const sockets = new Map<number, Set<WebSocket>>();
+
+// Sends an event to every open tab of a user
+export function publish(userId: number, event: RealtimeEvent): void {
+    const data = JSON.stringify(event);
+    for (const socket of sockets.get(userId) ?? []) {
+        if (socket.readyState === socket.OPEN) socket.send(data);
+    }
+}
+
+// Closes every open tab's connection of a user (e.g. when an admin disables or deletes the account)
+export function disconnect(userId: number): void {
+    for (const socket of sockets.get(userId) ?? []) socket.close(4001, 'Account unavailable');
+}
+
+// Resolves the user from the ?token= query parameter (browsers can't set headers on WebSocket requests)
+async function authenticate(req: IncomingMessage): Promise<number | null> {
+    const token = new URL(req.url ?? '', 'http://localhost').searchParams.get('token');
+    const userId = token ? verifyToken(token) : null;
+    if (userId === null) return null;
+    const user = await getUserById(userId);
+    return user && !user.disabled_at ? userId : null;
+}
+
+function reject(socket: Duplex, status: string) {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+}
+
+// Serves the event stream at ws(s)://<host>/api/events?token=<token> on the app's HTTP server
+export function attachRealtime(server: Server): void {
+    const wss = new WebSocketServer({ noServer: true });
+    const alive = new WeakSet<WebSocket>();
+
+    server.on('upgrade', (req, socket, head) => {
+        if (new URL(req.url ?? '', 'http://localhost').pathname !== EVENTS_PATH) return reject(socket, '404 Not Found');
+
+        authenticate(req).then((userId) => {
+            if (userId === null) return reject(socket, '401 Unauthorized');
+            if ((sockets.get(userId)?.size ?? 0) >= MAX_SOCKETS_PER_USER) return reject(socket, '429 Too Many Requests');
+
+            wss.handleUpgrade(req, socket, head, (ws) => {
+                const userSockets = sockets.get(userId) ?? new Set<WebSocket>();
+                userSockets.add(ws);
+                sockets.set(userId, userSockets);
+                alive.add(ws);
+                ws.on('pong', () => alive.add(ws));
+                ws.on('close', () => {
+                    userSockets.delete(ws);
+                    if (userSockets.size === 0) sockets.delete(userId);
+                });
+            });
+        }).catch((error) => {
+            console.error('Realtime auth error:', error);
+            reject(socket, '500 Internal Server Error');
+        });
+    });
+
+    // Drops connections that stopped answering pings (e.g. a laptop that went to sleep)
+    const heartbeat = setInterval(() => {
+        for (const ws of wss.clients) {
+            if (!alive.has(ws)) {
+                ws.terminate();
+                continue;
+            }
+            alive.delete(ws);
+            ws.ping();
+        }
+    }, HEARTBEAT_MS);
+    server.on('close', () => clearInterval(heartbeat));
+}
@@ -0,0 +1,94 @@
+import { createDocument, searchDocumentChunks, type Citation, type LibraryDocument, type RetrievedChunk } from './db.js';
+import { extractText, mimeTypeFor } from './attachments.js';
+import { getEmbeddingProvider, embeddingModelTag } from './embeddings.js';
+import { UpstreamError, ValidationError } from './errors.js';
+
+// dotenv is configured in index.ts
+
+// Chunks are about this many characters, and each one repeats the end of the previous one
+const CHUNK_CHARS = 1000;
+const CHUNK_OVERLAP = 200;
+
+// Places to end a chunk, best first
+const BREAKS = ['\n\n', '\n', '. ', ' '];
+
+// Number of chunks added to the prompt per message
+function topK(): number {
+    return parseInt(process.env.RETRIEVAL_TOP_K || '') || 4;
+}
+
+// Splits text into overlapping chunks, ending each at a paragraph, line, sentence or word break where possible
+export function chunkText(text: string): string[] {
+    const clean = text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    const chunks: string[] = [];
+    let start = 0;
+    while (start < clean.length) {
+        let end = Math.min(start + CHUNK_CHARS, clean.length);
+        if (end < clean.length) {
+            // Only break in the second half, so chunks don't get too small
+            for (const separator of BREAKS) {
+                const index = clean.lastIndexOf(separator, end - separator.length);
+                if (index > start + CHUNK_CHARS / 2) {
+                    end = index + separator.length;
+                    break;
+                }
+            }
+        }
+        const chunk = clean.slice(start, end).trim();
+        if (chunk) chunks.push(chunk);
+        if (end >= clean.length) break;
+
+        // Start the next chunk CHUNK_OVERLAP characters back, at the beginning of a word
+        const overlapStart = end - CHUNK_OVERLAP;
+        const wordStart = clean.indexOf(' ', overlapStart);
+        start = wordStart !== -1 && wordStart < end ? wordStart + 1 : Math.max(overlapStart, start + 1);
+    }
+    return chunks;
+}
+
+async function embed(texts: string[]): Promise<number[][]> {
+    try {
+        return await getEmbeddingProvider().embed(texts);
+    } catch (error) {
+        throw new UpstreamError('The embedding provider failed to respond. Please try again.', error);
+    }
+}
+
+// Extracts, chunks and embeds an uploaded file and adds it to the user's library
+export async function ingestDocument(userId: number, filename: string, content: Buffer): Promise<LibraryDocument> {
+    const chunks = chunkText(await extractText(filename, content));
+    if (chunks.length === 0) throw new ValidationError('No text could be extracted from this file');
+
+    const embeddings = await embed(chunks);
+    return createDocument(
+        {
+            user_id: userId,
+            filename,
+            mime_type: mimeTypeFor(filename),
+            size: content.length,
+            embedding_model: embeddingModelTag(getEmbeddingProvider()),
+        },
+        chunks.map((chunk, index) => ({ content: chunk, embedding: embeddings[index] })),
+    );
+}
+
+// Finds the library chunks most similar to a query, best first
+export async function retrieveChunks(userId: number, query: string): Promise<RetrievedChunk[]> {
+    const [embedding] = await embed([query]);
+    return searchDocumentChunks(userId, embedding, embeddingModelTag(getEmbeddingProvider()), topK());
+}
+
+// Citations for a reply: the sources it cites as [n], or every source it was given if it cites none
+export function citationsFor(sources: RetrievedChunk[], reply: string): Citation[] | null {
+    if (sources.length === 0) return null;
+    const cited = new Set([...reply.matchAll(/\[(\d+)\]/g)].map((match) => Number(match[1])));
+    const citations = sources.map((source, i) => ({
+        index: i + 1,
+        document_id: source.document_id,
+        filename: source.filename,
+        chunk_index: source.chunk_index,
+        excerpt: source.content,
+    }));
+    const matching = citations.filter((citation) => cited.has(citation.index));
+    return matching.length > 0 ? matching : citations;
+}
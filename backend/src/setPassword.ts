@@ -0,0 +1,31 @@
+import readline from 'readline/promises';
+import { getUserByUsername, setUserPassword } from './db.js';
+import { hashPassword } from './auth.js';
+import { credentialsSchema } from './validation.js';
+
+// Password CLI: npm run set-password -- <username>
+// Sets or resets an account's password out of band; the only way to unlock legacy accounts created before passwords,
+// which can't log in until they have one. The new password is read from stdin so it stays out of the shell history
+const USAGE = 'Usage: npm run set-password -- <username>';
+
+async function main(): Promise<void> {
+    const [username] = process.argv.slice(2);
+    if (!username) throw new Error(USAGE);
+
+    const user = await getUserByUsername(username.toLowerCase());
+    if (!user) throw new Error(`No user named "${username}"`);
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: false });
+    const password = await rl.question(`New password for ${user.username}: `);
+    rl.close();
+    const parsed = credentialsSchema.safeParse({ username: user.username, password });
+    if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+    await setUserPassword(user.id, await hashPassword(parsed.data.password));
+    console.log(`✅ Password set for ${user.username}`);
+}
+
+main().catch((error) => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+});
@@ -0,0 +1,39 @@
+import { randomBytes } from 'crypto';
+import { createShareLink, getMessageAttachments, getSessionMessages, type Session, type SharedMessage, type ShareLink } from './db.js';
+import { ValidationError } from './errors.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Copies the selected branch of a session into a new share link
+// Later messages, edits and deletions don't change what the link shows
+export async function shareSession(session: Session, expiresInDays: number | null): Promise<ShareLink> {
+    // Failed replies are left out; stopped ones keep the text they got
+    const branch = (await getSessionMessages(session.id)).filter((msg) => msg.status !== 'failed');
+    if (branch.length === 0) throw new ValidationError('There is nothing to share in this chat yet');
+
+    const attachments = await getMessageAttachments(branch.map((msg) => msg.id));
+    const messages: SharedMessage[] = branch.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+        citations: msg.citations,
+        tool_call: msg.tool_call,
+        attachments: attachments
+            .filter((file) => file.message_id === msg.id)
+            .map(({ filename, size }) => ({ filename, size })),
+        created_at: msg.created_at,
+    }));
+
+    return createShareLink({
+        // 192 random bits, URL-safe
+        token: randomBytes(24).toString('base64url'),
+        session_id: session.id,
+        user_id: session.user_id,
+        title: session.title,
+        messages,
+        expires_at: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY_MS).toISOString(),
+    });
+}
+
+export function isExpired(link: ShareLink): boolean {
+    return link.expires_at !== null && new Date(link.expires_at).getTime() <= Date.now();
+}
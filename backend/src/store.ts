@@ -0,0 +1,464 @@
+// Types shared by every storage backend (see postgresStore.ts / memoryStore.ts)
+// Admins can use the admin console (/api/admin)
+export type UserRole = 'user' | 'admin';
+
+export interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+  // Set while an admin has disabled the account; disabled users can't log in or use their tokens
+  disabled_at: string | null;
+  created_at: string;
+}
+
+// User row including the password hash; never send this to the client
+export interface UserRecord extends User {
+  password_hash: string | null;
+}
+
+// Per-session generation settings; null means "use the default"
+export interface SessionSettings {
+  model: string | null;
+  system_prompt: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  // Look up excerpts from the user's document library for every message
+  retrieval_enabled: boolean;
+}
+
+// Where a session is filed and how it's listed
+export interface SessionOrganization {
+  // null: not in a folder
+  folder_id: number | null;
+  // Pinned sessions are listed before the others
+  pinned: boolean;
+  // Archived sessions are left out of the default list
+  archived: boolean;
+  // Ascending
+  tag_ids: number[];
+}
+
+export interface Session extends SessionSettings, SessionOrganization {
+  id: number;
+  user_id: number;
+  title: string;
+  // The user renamed the chat, so automatic titles leave it alone
+  title_edited: boolean;
+  // Leaf of the currently selected branch
+  active_message_id: number | null;
+  created_at: string;
+}
+
+// Where a page of the session list ends: the sort key of the last session already loaded
+// It is the key itself rather than the session's id, so the page after it can be found even once that session is deleted
+export type SessionCursor = Pick<Session, 'pinned' | 'created_at' | 'id'>;
+
+// Which of a user's sessions to list; fields left out don't filter
+export interface SessionFilter {
+  // null: only sessions that aren't in a folder
+  folderId?: number | null;
+  tagId?: number;
+  // Defaults to false, so archived sessions only show up when asked for
+  archived?: boolean;
+}
+
+// A user-defined folder; a session is in at most one
+export interface Folder {
+  id: number;
+  user_id: number;
+  name: string;
+  created_at: string;
+}
+
+// A user-defined tag; a session can have any number
+export interface Tag {
+  id: number;
+  user_id: number;
+  name: string;
+  created_at: string;
+}
+
+// A reusable prompt, run from the composer as /<name>; content can hold {{variable}} placeholders
+export interface PromptTemplate {
+  id: number;
+  user_id: number;
+  name: string;
+  description: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PromptTemplateFields = Pick<PromptTemplate, 'name' | 'description' | 'content'>;
+
+// tool: a tool the assistant called while writing the reply that follows it (see tool_call)
+export type MessageRole = 'user' | 'assistant' | 'tool';
+
+// How an assistant reply ended: interrupted replies were stopped while streaming (content is what had arrived),
+// failed ones hit an error (see Message.error); everything else is complete
+export type MessageStatus = 'complete' | 'interrupted' | 'failed';
+
+// Messages form a tree per session: edits and regenerations become siblings under the same parent
+export interface Message {
+  id: number;
+  session_id: number;
+  parent_id: number | null;
+  role: MessageRole;
+  // For tool messages, the result as the model saw it
+  content: string;
+  // Library excerpts an assistant reply drew on; null for user messages and replies without retrieval
+  citations: Citation[] | null;
+  // Set on tool messages only
+  tool_call: ToolCall | null;
+  status: MessageStatus;
+  // Why a failed reply failed, as shown to the user
+  error: string | null;
+  // The model that wrote an assistant reply (a fallback when the session's model was unavailable)
+  model: string | null;
+  created_at: string;
+}
+
+// One tool call and its result; id is the call id the model assigned
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: unknown;
+  result: unknown;
+  // Set when the tool failed; the model was given the error instead of a result
+  error: string | null;
+}
+
+// A library excerpt cited by a reply; `index` is the [n] marker used in the reply text
+// The excerpt is a copy, so citations survive the document being deleted
+export interface Citation {
+  index: number;
+  document_id: number;
+  filename: string;
+  chunk_index: number;
+  excerpt: string;
+}
+
+// A message on the selected branch, with the ids of its siblings (itself included, oldest first)
+export interface ThreadMessage extends Message {
+  sibling_ids: number[];
+}
+
+// A file attached to a user message; the bytes and extracted text are only loaded when needed
+export interface Attachment {
+  id: number;
+  session_id: number;
+  // null between the upload and sending the message it belongs to
+  message_id: number | null;
+  filename: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
+}
+
+export interface AttachmentText extends Attachment {
+  text: string;
+}
+
+export interface AttachmentFile extends Attachment {
+  content: Buffer;
+}
+
+export interface NewAttachment {
+  session_id: number;
+  filename: string;
+  mime_type: string;
+  content: Buffer;
+  text: string;
+}
+
+// A document in a user's library, split into embedded chunks for retrieval
+export interface LibraryDocument {
+  id: number;
+  user_id: number;
+  filename: string;
+  mime_type: string;
+  size: number;
+  chunk_count: number;
+  // <provider>:<model> that embedded the chunks
+  embedding_model: string;
+  created_at: string;
+}
+
+export type NewDocument = Omit<LibraryDocument, 'id' | 'chunk_count' | 'created_at'>;
+
+export interface NewChunk {
+  content: string;
+  embedding: number[];
+}
+
+// A chunk returned by a similarity search; score is the cosine similarity to the query
+export interface RetrievedChunk {
+  id: number;
+  document_id: number;
+  filename: string;
+  chunk_index: number;
+  content: string;
+  score: number;
+}
+
+// A message in a shared snapshot: no ids or branches, and only the names and sizes of attached files
+export interface SharedMessage {
+  role: MessageRole;
+  content: string;
+  citations: Citation[] | null;
+  tool_call: ToolCall | null;
+  attachments: { filename: string; size: number }[];
+  created_at: string;
+}
+
+// A read-only link to a copy of a session's selected branch, frozen when the link was created
+export interface ShareLink {
+  id: number;
+  // Unguessable id used in the public URL (/share/<token>)
+  token: string;
+  session_id: number;
+  user_id: number;
+  title: string;
+  message_count: number;
+  // null for links that don't expire
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface SharedSnapshot extends ShareLink {
+  messages: SharedMessage[];
+}
+
+export type NewShareLink = Omit<SharedSnapshot, 'id' | 'message_count' | 'created_at'>;
+
+// Rolling summary of the messages that no longer fit in the context window
+export interface SessionSummary {
+  session_id: number;
+  summary: string;
+  through_message_id: number;
+  updated_at: string;
+}
+
+// A search hit: a matching message, or a session whose title matched (message_id null)
+// Matched terms in `snippet` are wrapped in HIGHLIGHT_START / HIGHLIGHT_END
+export interface SearchResult {
+  session_id: number;
+  session_title: string;
+  message_id: number | null;
+  role: 'user' | 'assistant' | null;
+  snippet: string;
+  rank: number;
+  created_at: string;
+}
+
+// One LLM call, recorded for usage readouts and daily quotas
+export interface UsageEntry {
+  user_id: number;
+  session_id: number | null;
+  model: string;
+  // chat: a reply to the user; summary: folding older turns into the rolling summary
+  // title: naming a new chat after its first exchange
+  kind: 'chat' | 'summary' | 'title';
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+}
+
+// Usage of one model over a period
+export interface UsageTotals {
+  model: string;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// A user with activity totals, for the admin console
+export interface UserStats extends User {
+  session_count: number;
+  // Across all branches, tool messages included
+  message_count: number;
+  // Prompt + completion tokens over all time
+  total_tokens: number;
+  // Time of the latest LLM call, or null when there was none
+  last_active_at: string | null;
+}
+
+// A session as the admin console lists it: title and size, no content
+export interface SessionStats {
+  id: number;
+  title: string;
+  archived: boolean;
+  message_count: number;
+  created_at: string;
+}
+
+export type AuditAction = 'user.disable' | 'user.enable' | 'user.promote' | 'user.demote' | 'user.delete' | 'session.delete' | 'share.delete';
+
+// One change made by an admin; usernames are copied so entries outlive deleted accounts
+export interface AuditEntry {
+  id: number;
+  admin_id: number | null;
+  admin_username: string;
+  action: AuditAction;
+  target_user_id: number | null;
+  target_username: string | null;
+  // What the action touched, e.g. the id and title of a deleted session
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'created_at'>;
+
+export interface SaveMessageOptions {
+  createdAt?: string;
+  citations?: Citation[] | null;
+  toolCall?: ToolCall | null;
+  status?: MessageStatus;
+  error?: string | null;
+  model?: string | null;
+}
+
+// Private-use characters mark highlights so snippets never need to be rendered as HTML
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_END = '\uE001';
+
+// Persistence operations the app needs; db.ts picks the implementation from config
+export interface ChatStore {
+  // Prepares the storage (e.g. creates tables and indexes that don't exist yet)
+  initDatabase(): Promise<void>;
+  // Finds a user by username, including the password hash
+  getUserByUsername(username: string): Promise<UserRecord | null>;
+  // Finds a user by id
+  getUserById(userId: number): Promise<User | null>;
+  // Creates a new user with a hashed password
+  createUser(username: string, passwordHash: string): Promise<User>;
+  // Sets the password hash for a user
+  setUserPassword(userId: number, passwordHash: string): Promise<void>;
+  // Gives a user the admin role or takes it away
+  setUserRole(userId: number, role: UserRole): Promise<User>;
+  // Disables or re-enables an account
+  setUserDisabled(userId: number, disabled: boolean): Promise<User>;
+  // Deletes an account and everything it owns
+  deleteUser(userId: number): Promise<void>;
+  // Users whose username contains `query` (every user when it's empty) with their activity totals, newest first
+  // `before` is the id of the last user already loaded
+  searchUsers(query: string, before?: number | null, limit?: number): Promise<UserStats[]>;
+  // Activity totals for one user
+  getUserStats(userId: number): Promise<UserStats | null>;
+  // A user's sessions with their message counts, archived ones included, newest first
+  getUserSessionStats(userId: number): Promise<SessionStats[]>;
+  // Creates a new chat session
+  createSession(userId: number, title?: string): Promise<Session>;
+  // Returns a single session by id
+  getSession(sessionId: number): Promise<Session | null>;
+  // Returns a user's sessions matching a filter, pinned first and then newest first
+  // `before` is the sort key of the last session already loaded
+  getUserSessions(userId: number, filter: SessionFilter, before?: SessionCursor | null, limit?: number): Promise<Session[]>;
+  // Sets an automatic title; returns null without changing anything when the user has renamed the session
+  updateSessionTitle(sessionId: number, title: string): Promise<Session | null>;
+  // Sets a title chosen by the user, which automatic titles never replace
+  renameSession(sessionId: number, title: string): Promise<Session>;
+  // Replaces a session's generation settings
+  updateSessionSettings(sessionId: number, settings: SessionSettings): Promise<Session>;
+  // Replaces a session's folder, pin, archive flag and tags
+  updateSessionOrganization(sessionId: number, organization: SessionOrganization): Promise<Session>;
+  // Deletes a session
+  deleteSession(sessionId: number): Promise<void>;
+  // Returns a user's folders, by name
+  getUserFolders(userId: number): Promise<Folder[]>;
+  // Returns a folder by id
+  getFolder(folderId: number): Promise<Folder | null>;
+  // Creates a folder
+  createFolder(userId: number, name: string): Promise<Folder>;
+  // Renames a folder
+  renameFolder(folderId: number, name: string): Promise<Folder>;
+  // Deletes a folder; its sessions are moved out of it
+  deleteFolder(folderId: number): Promise<void>;
+  // Returns a user's tags, by name
+  getUserTags(userId: number): Promise<Tag[]>;
+  // Returns a tag by id
+  getTag(tagId: number): Promise<Tag | null>;
+  // Creates a tag
+  createTag(userId: number, name: string): Promise<Tag>;
+  // Renames a tag
+  renameTag(tagId: number, name: string): Promise<Tag>;
+  // Deletes a tag and removes it from every session
+  deleteTag(tagId: number): Promise<void>;
+  // Returns a user's prompt templates, by name
+  getUserTemplates(userId: number): Promise<PromptTemplate[]>;
+  // Returns a prompt template by id
+  getTemplate(templateId: number): Promise<PromptTemplate | null>;
+  // Creates a prompt template
+  createTemplate(userId: number, fields: PromptTemplateFields): Promise<PromptTemplate>;
+  // Replaces a prompt template's name, description and content
+  updateTemplate(templateId: number, fields: PromptTemplateFields): Promise<PromptTemplate>;
+  // Deletes a prompt template
+  deleteTemplate(templateId: number): Promise<void>;
+  // Saves a message under a parent and makes it the tip of the session's selected branch
+  // createdAt is only passed when restoring messages (e.g. imports); new messages use the current time
+  // citations are set on replies that drew on the document library, toolCall on tool messages,
+  // status and error on replies that were stopped or failed, model on replies
+  saveMessage(sessionId: number, role: MessageRole, content: string, parentId: number | null, options?: SaveMessageOptions): Promise<Message>;
+  // Returns every message in a session, across all branches, oldest first
+  getSessionTree(sessionId: number): Promise<Message[]>;
+  // Returns a message by id
+  getMessage(messageId: number): Promise<Message | null>;
+  // Returns the branch from the root down to a message (inclusive), root first
+  // With a limit, only the `limit` messages closest to that message are returned
+  getMessagePath(sessionId: number, messageId: number, limit?: number): Promise<ThreadMessage[]>;
+  // Makes a message the tip of the session's selected branch
+  setActiveMessage(sessionId: number, messageId: number): Promise<void>;
+  // Clears all messages in a session (and the summary and attachments that belong to them)
+  clearSessionMessages(sessionId: number): Promise<void>;
+  // Stores an uploaded file that isn't linked to a message yet
+  createAttachment(attachment: NewAttachment): Promise<Attachment>;
+  // Returns an attachment with its file content
+  getAttachment(attachmentId: number): Promise<AttachmentFile | null>;
+  // Returns the attachments of the given messages, oldest first
+  getMessageAttachments(messageIds: number[]): Promise<Attachment[]>;
+  // Returns a session's uploads that haven't been sent with a message yet
+  getPendingAttachments(sessionId: number): Promise<Attachment[]>;
+  // Same as getMessageAttachments, with the extracted text
+  getAttachmentTexts(messageIds: number[]): Promise<AttachmentText[]>;
+  // Links uploaded attachments to the message they were sent with
+  linkAttachments(attachmentIds: number[], messageId: number): Promise<void>;
+  // Gives a message copies of another message's attachments (e.g. when it is edited)
+  copyAttachments(fromMessageId: number, toMessageId: number): Promise<void>;
+  // Deletes an attachment
+  deleteAttachment(attachmentId: number): Promise<void>;
+  // Stores a document and its embedded chunks (in chunk order)
+  createDocument(document: NewDocument, chunks: NewChunk[]): Promise<LibraryDocument>;
+  // Returns a user's documents, newest first
+  getUserDocuments(userId: number): Promise<LibraryDocument[]>;
+  // Returns a document by id
+  getDocument(documentId: number): Promise<LibraryDocument | null>;
+  // Deletes a document and its chunks
+  deleteDocument(documentId: number): Promise<void>;
+  // Returns the user's chunks closest to an embedding, best first; only chunks embedded by `model` are compared
+  searchDocumentChunks(userId: number, embedding: number[], model: string, limit: number): Promise<RetrievedChunk[]>;
+  // Stores a share link with its snapshot
+  createShareLink(link: NewShareLink): Promise<ShareLink>;
+  // Returns a user's share links (without snapshots), newest first
+  getUserShareLinks(userId: number): Promise<ShareLink[]>;
+  // Returns a share link by id, without its snapshot
+  getShareLink(shareId: number): Promise<ShareLink | null>;
+  // Returns a share link and its snapshot by token, expired or not
+  getSharedSnapshot(token: string): Promise<SharedSnapshot | null>;
+  // Deletes a share link, which revokes it
+  deleteShareLink(shareId: number): Promise<void>;
+  // Returns the rolling summary for a session, if one exists
+  getSessionSummary(sessionId: number): Promise<SessionSummary | null>;
+  // Creates or replaces the rolling summary for a session
+  saveSessionSummary(sessionId: number, summary: string, throughMessageId: number): Promise<void>;
+  // Ranked full-text search over a user's session titles and message contents (tool results are left out)
+  searchUserContent(userId: number, query: string, limit?: number): Promise<SearchResult[]>;
+  // Records the tokens and latency of one LLM call
+  recordUsage(entry: UsageEntry): Promise<void>;
+  // Returns a user's usage per model since a point in time
+  getUsageByModel(userId: number, since: string): Promise<UsageTotals[]>;
+  // Appends an entry to the admin audit log
+  recordAuditEntry(entry: NewAuditEntry): Promise<AuditEntry>;
+  // Returns audit log entries newest first, optionally only those about one user
+  // `before` is the id of the last entry already loaded
+  getAuditLog(targetUserId: number | null, before?: number | null, limit?: number): Promise<AuditEntry[]>;
+}
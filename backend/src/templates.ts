@@ -0,0 +1,19 @@
+import type { PromptTemplate } from './db.js';
+
+// Slash commands the composer handles itself, so templates can't take these names
+export const BUILT_IN_COMMANDS = ['clear', 'new', 'model', 'export'];
+
+export const MAX_TEMPLATE_VARIABLES = 20;
+
+// {{name}} placeholders; names are letters, digits, "_" and "-", optionally padded with spaces
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// The distinct variables in a template's content, in order of first use
+export function templateVariables(content: string): string[] {
+    return [...new Set([...content.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))];
+}
+
+// A template as the client sees it, with the variables it asks for
+export function withVariables(template: PromptTemplate): PromptTemplate & { variables: string[] } {
+    return { ...template, variables: templateVariables(template.content) };
+}
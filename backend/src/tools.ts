@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import type { CoreTool } from 'ai';
+import { searchUserContent, HIGHLIGHT_START, HIGHLIGHT_END, type Session, type ToolCall } from './db.js';
+import { evaluateExpression } from './calculator.js';
+
+// dotenv is configured in index.ts
+
+// What a tool knows about the request that triggered it
+export interface ToolContext {
+    session: Session;
+}
+
+export interface ChatTool<P extends z.ZodTypeAny = z.ZodTypeAny> {
+    name: string;
+    // Tells the model when to use the tool
+    description: string;
+    parameters: P;
+    // Returns a JSON-serializable result; thrown errors are reported to the model instead
+    execute(args: z.infer<P>, context: ToolContext): Promise<unknown>;
+    // Tools that need configuration can opt out when it's missing
+    isAvailable?(): boolean;
+}
+
+// What the model receives when a tool throws
+interface ToolFailure {
+    error: string;
+}
+
+const tools = new Map<string, ChatTool>();
+
+// Adds a tool to the registry (replaces one with the same name)
+export function registerTool<P extends z.ZodTypeAny>(tool: ChatTool<P>): void {
+    tools.set(tool.name, tool as ChatTool);
+}
+
+// Registered tools that are configured and turned on by TOOLS (comma-separated names, or "all")
+// Tools are off by default: not every provider or model supports tool calling, and some reject requests that offer tools
+export function listEnabledTools(): ChatTool[] {
+    const allowed = (process.env.TOOLS ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+    return [...tools.values()].filter((tool) =>
+        (allowed.includes('all') || allowed.includes(tool.name)) && (tool.isAvailable?.() ?? true));
+}
+
+// Most model calls per reply; each step can call tools and the last one has to answer
+export function maxToolSteps(): number {
+    return parseInt(process.env.TOOL_MAX_STEPS || '') || 5;
+}
+
+// An AI SDK tool that runs on the server (the SDK only reports results for tools with execute)
+type ServerTool = CoreTool & { execute: NonNullable<CoreTool['execute']> };
+
+// The enabled tools in the AI SDK's format, bound to a session (undefined when there are none)
+export function toolsForSession(session: Session): Record<string, ServerTool> | undefined {
+    const enabled = listEnabledTools();
+    if (enabled.length === 0) return undefined;
+    return Object.fromEntries(enabled.map((tool) => [tool.name, {
+        description: tool.description,
+        parameters: tool.parameters,
+        async execute(args: unknown): Promise<unknown> {
+            try {
+                return await tool.execute(args, { session });
+            } catch (error) {
+                const failure: ToolFailure = { error: error instanceof Error ? error.message : String(error) };
+                return failure;
+            }
+        },
+    } satisfies ServerTool]));
+}
+
+// Builds the record saved for a finished tool call
+export function toToolCall(part: { toolCallId: string; toolName: string; args: unknown; result: unknown }): ToolCall {
+    const failed = typeof part.result === 'object' && part.result !== null
+        && Object.keys(part.result).length === 1 && typeof (part.result as ToolFailure).error === 'string';
+    return {
+        id: part.toolCallId,
+        name: part.toolName,
+        args: part.args,
+        result: failed ? null : part.result,
+        error: failed ? (part.result as ToolFailure).error : null,
+    };
+}
+
+// What the model saw for a tool call, as text (stored as the tool message's content)
+export function toolResultText(call: ToolCall): string {
+    return call.error !== null ? `Error: ${call.error}` : JSON.stringify(call.result ?? null);
+}
+
+// Largest fetched page handed to the model, in characters
+const MAX_FETCHED_CHARS = 8000;
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Crude HTML to text: drops scripts, styles and tags, decodes the common entities
+function htmlToText(html: string): string {
+    return html
+        .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+registerTool({
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and functions such as sqrt, ln, log, sin, cos, round.',
+    parameters: z.object({
+        expression: z.string().max(500).describe('The expression to evaluate, e.g. "(3 + 4) * 2^10"'),
+    }),
+    async execute({ expression }) {
+        return { expression, result: evaluateExpression(expression) };
+    },
+});
+
+registerTool({
+    name: 'current_time',
+    description: 'Returns the current date and time, optionally in a given IANA time zone.',
+    parameters: z.object({
+        timezone: z.string().max(100).optional().describe('IANA time zone such as "Europe/Paris"; defaults to UTC'),
+    }),
+    async execute({ timezone }) {
+        const now = new Date();
+        const timeZone = timezone || 'UTC';
+        let local: string;
+        try {
+            local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+        } catch {
+            throw new Error(`Unknown time zone "${timeZone}"`);
+        }
+        return { iso: now.toISOString(), timezone: timeZone, local };
+    },
+});
+
+registerTool({
+    name: 'search_conversations',
+    description: "Full-text search over the user's past conversations with you. Use it when the user refers to something discussed before.",
+    parameters: z.object({
+        query: z.string().min(2).max(200).describe('Words to look for'),
+        limit: z.number().int().min(1).max(10).optional().describe('Maximum number of hits (default 5)'),
+    }),
+    async execute({ query, limit }, { session }) {
+        const results = await searchUserContent(session.user_id, query, limit ?? 5);
+        return results.map((result) => ({
+            conversation: result.session_title,
+            role: result.role,
+            snippet: result.snippet.split(HIGHLIGHT_START).join('').split(HIGHLIGHT_END).join(''),
+            date: result.created_at,
+        }));
+    },
+});
+
+// Requests go through FETCH_PROXY_URL, so the server never connects to model-chosen hosts itself
+// "{url}" in the proxy URL is replaced with the encoded target; otherwise the target is appended
+registerTool({
+    name: 'fetch_url',
+    description: 'Fetches a web page or text file and returns its text content (truncated).',
+    parameters: z.object({
+        url: z.string().url().refine((url) => /^https?:\/\//i.test(url), 'Only http and https URLs can be fetched').describe('The absolute URL to fetch'),
+    }),
+    isAvailable: () => Boolean(process.env.FETCH_PROXY_URL),
+    async execute({ url }) {
+        const proxy = process.env.FETCH_PROXY_URL!;
+        const target = proxy.includes('{url}') ? proxy.replace('{url}', encodeURIComponent(url)) : proxy + encodeURIComponent(url);
+        const response = await fetch(target, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS), redirect: 'follow' });
+        if (!response.ok) throw new Error(`Fetching ${url} failed with status ${response.status}`);
+
+        const body = await response.text();
+        const text = (response.headers.get('Content-Type') ?? '').includes('html') ? htmlToText(body) : body;
+        return {
+            url,
+            content: text.slice(0, MAX_FETCHED_CHARS),
+            truncated: text.length > MAX_FETCHED_CHARS,
+        };
+    },
+});
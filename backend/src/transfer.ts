@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import { createSession, deleteSession, updateSessionSettings, saveMessage, selectBranch, getSession, getSessionTree, getSessionMessages, type Citation, type MessageRole, type MessageStatus, type Session, type SessionSettings, type ToolCall } from './db.js';
+
+// Bump when the export format changes; imports accept this version only
+export const EXPORT_VERSION = 1;
+
+// Portable session document. Message ids are only meaningful inside the document
+// (parent_id / active_message_id refer to them) and are reassigned on import
+export interface SessionExport {
+    version: number;
+    exported_at: string;
+    session: {
+        title: string;
+        settings: SessionSettings;
+        created_at: string;
+        active_message_id: number | null;
+    };
+    messages: {
+        id: number;
+        parent_id: number | null;
+        role: MessageRole;
+        content: string;
+        citations: Citation[] | null;
+        tool_call: ToolCall | null;
+        status: MessageStatus;
+        error: string | null;
+        model: string | null;
+        created_at: string;
+    }[];
+}
+
+const MAX_IMPORT_MESSAGES = 5000;
+
+// Builds the JSON export: session, settings and every message across all branches
+export async function exportSessionJson(session: Session): Promise<SessionExport> {
+    const tree = await getSessionTree(session.id);
+    return {
+        version: EXPORT_VERSION,
+        exported_at: new Date().toISOString(),
+        session: {
+            title: session.title,
+            settings: {
+                model: session.model,
+                system_prompt: session.system_prompt,
+                temperature: session.temperature,
+                max_tokens: session.max_tokens,
+                retrieval_enabled: session.retrieval_enabled,
+            },
+            created_at: session.created_at,
+            active_message_id: session.active_message_id,
+        },
+        messages: tree.map(({ id, parent_id, role, content, citations, tool_call, status, error, model, created_at }) => ({ id, parent_id, role, content, citations, tool_call, status, error, model, created_at })),
+    };
+}
+
+// Builds a Markdown transcript of the selected branch
+export async function exportSessionMarkdown(session: Session): Promise<string> {
+    const messages = await getSessionMessages(session.id);
+    const lines = [`# ${session.title}`, '', `_Exported ${new Date().toISOString()}_`, ''];
+    for (const msg of messages) {
+        if (msg.role === 'tool' && msg.tool_call) {
+            const call = msg.tool_call;
+            const outcome = call.error !== null
+                ? `Failed: ${call.error}`
+                : ['Result:', '', '```json', JSON.stringify(call.result, null, 2), '```'].join('\n');
+            lines.push(`### Tool call: ${call.name}`, '', '```json', JSON.stringify(call.args, null, 2), '```', '', outcome, '');
+            continue;
+        }
+        lines.push(`## ${msg.role === 'user' ? 'User' : 'Assistant'} (${new Date(msg.created_at).toISOString()})`, '', msg.content, '');
+        if (msg.status === 'interrupted') lines.push('_(Stopped before the reply was finished.)_', '');
+        if (msg.status === 'failed') lines.push(`_(Failed: ${msg.error ?? 'unknown error'})_`, '');
+    }
+    return lines.join('\n');
+}
+
+const timestamp = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid timestamp');
+
+// Schema for uploaded exports; parents must appear before their children so the tree can be rebuilt in one pass
+export const sessionImportSchema = z.object({
+    version: z.literal(EXPORT_VERSION, { errorMap: () => ({ message: `Unsupported export version (expected ${EXPORT_VERSION})` }) }),
+    exported_at: z.string().optional(),
+    session: z.object({
+        title: z.string().trim().min(1, 'Session title is required').max(100),
+        settings: z.object({
+            model: z.string().nullable(),
+            system_prompt: z.string().nullable(),
+            temperature: z.number().nullable(),
+            max_tokens: z.number().int().nullable(),
+            // Added after version 1 shipped, so older exports leave it out
+            retrieval_enabled: z.boolean().default(false),
+        }),
+        created_at: z.string().optional(),
+        active_message_id: z.number().nullable(),
+    }, { required_error: 'Missing session' }),
+    messages: z.array(z.object({
+        id: z.number(),
+        parent_id: z.number().nullable(),
+        role: z.enum(['user', 'assistant', 'tool']),
+        content: z.string(),
+        // The library excerpts a reply cited; older exports leave them out
+        citations: z.array(z.object({
+            index: z.number().int(),
+            document_id: z.number().int(),
+            filename: z.string(),
+            chunk_index: z.number().int(),
+            excerpt: z.string(),
+        })).nullable().default(null),
+        // Only tool messages have one; older exports leave it out
+        tool_call: z.object({
+            id: z.string(),
+            name: z.string(),
+            args: z.unknown(),
+            result: z.unknown(),
+            error: z.string().nullable(),
+        }).nullable().default(null),
+        // Added after version 1 shipped, so older exports leave them out
+        status: z.enum(['complete', 'interrupted', 'failed']).default('complete'),
+        error: z.string().nullable().default(null),
+        model: z.string().max(200).nullable().default(null),
+        created_at: timestamp,
+    }), { required_error: 'Messages must be an array' }).max(MAX_IMPORT_MESSAGES, `Too many messages (max ${MAX_IMPORT_MESSAGES})`),
+}).superRefine((doc, ctx) => {
+    const seen = new Set<number>();
+    for (const [index, msg] of doc.messages.entries()) {
+        if (seen.has(msg.id)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['messages', index, 'id'], message: 'Duplicate message id' });
+        }
+        if (msg.parent_id !== null && !seen.has(msg.parent_id)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['messages', index, 'parent_id'], message: 'Parent must appear earlier in the export' });
+        }
+        if ((msg.role === 'tool') !== (msg.tool_call !== null)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['messages', index, 'tool_call'], message: 'Tool messages (and only those) need a tool_call' });
+        }
+        seen.add(msg.id);
+    }
+    const activeId = doc.session.active_message_id;
+    if (activeId !== null && !seen.has(activeId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['session', 'active_message_id'], message: 'Active message is not in the export' });
+    }
+});
+
+// Recreates an exported session for a user, keeping the branch structure and timestamps
+// Messages are saved one by one, so a failure partway deletes the session rather than leaving half of it behind
+export async function importSession(userId: number, doc: z.infer<typeof sessionImportSchema>, settings: SessionSettings): Promise<Session> {
+    const session = await createSession(userId, doc.session.title.trim().substring(0, 100));
+    try {
+        await updateSessionSettings(session.id, settings);
+
+        const idMap = new Map<number, number>();
+        for (const msg of doc.messages) {
+            const parentId = msg.parent_id === null ? null : idMap.get(msg.parent_id)!;
+            const saved = await saveMessage(session.id, msg.role, msg.content, parentId, {
+                createdAt: msg.created_at,
+                citations: msg.citations,
+                toolCall: msg.tool_call as ToolCall | null,
+                status: msg.status,
+                error: msg.error,
+                model: msg.model,
+            });
+            idMap.set(msg.id, saved.id);
+        }
+
+        const activeId = doc.session.active_message_id ?? doc.messages[doc.messages.length - 1]?.id;
+        if (activeId !== undefined) await selectBranch(session.id, idMap.get(activeId)!);
+    } catch (error) {
+        await deleteSession(session.id).catch((cleanupError) => console.error('Failed to delete partially imported session:', cleanupError));
+        throw error;
+    }
+
+    return (await getSession(session.id))!;
+}
@@ -0,0 +1,76 @@
+import type { NextFunction, Request, Response } from 'express';
+import { recordUsage, getUsageByModel, type Session, type UsageEntry, type UsageTotals } from './db.js';
+import { asyncHandler, RateLimitError } from './errors.js';
+import { limitFromEnv } from './rateLimit.js';
+
+// dotenv is configured in index.ts
+
+// A user's usage for the current quota period (one UTC day)
+export interface UsageReport {
+    period_start: string;
+    resets_at: string;
+    // Tokens allowed per day, or null when unlimited
+    quota: number | null;
+    used_tokens: number;
+    by_model: UsageTotals[];
+}
+
+function dailyTokenQuota(): number | null {
+    const quota = limitFromEnv('DAILY_TOKEN_QUOTA', 0);
+    return quota > 0 ? quota : null;
+}
+
+function startOfUtcDay(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// Records one LLM call; providers that don't report token counts are recorded as 0
+// Failures are logged rather than thrown so accounting never breaks a reply
+export async function recordGeneration(
+    session: Session,
+    kind: UsageEntry['kind'],
+    model: string,
+    usage: { promptTokens: number; completionTokens: number },
+    startedAt: number,
+): Promise<void> {
+    const count = (tokens: number) => (Number.isFinite(tokens) ? tokens : 0);
+    try {
+        await recordUsage({
+            user_id: session.user_id,
+            session_id: session.id,
+            model,
+            kind,
+            prompt_tokens: count(usage.promptTokens),
+            completion_tokens: count(usage.completionTokens),
+            latency_ms: Date.now() - startedAt,
+        });
+    } catch (error) {
+        console.error('Failed to record usage:', error);
+    }
+}
+
+// Today's usage for a user, per model and in total
+export async function getDailyUsage(userId: number): Promise<UsageReport> {
+    const periodStart = startOfUtcDay(new Date());
+    const byModel = await getUsageByModel(userId, periodStart.toISOString());
+    return {
+        period_start: periodStart.toISOString(),
+        resets_at: new Date(periodStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+        quota: dailyTokenQuota(),
+        used_tokens: byModel.reduce((total, row) => total + row.prompt_tokens + row.completion_tokens, 0),
+        by_model: byModel,
+    };
+}
+
+// Rejects LLM calls with a 429 once the user has spent today's quota (checked before the call,
+// so the reply that crosses the limit still completes)
+export const requireQuota = asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+    if (dailyTokenQuota() === null) return next();
+
+    const usage = await getDailyUsage(req.user!.id);
+    if (usage.quota !== null && usage.used_tokens >= usage.quota) {
+        const retryAfter = Math.ceil((Date.parse(usage.resets_at) - Date.now()) / 1000);
+        throw new RateLimitError(`Daily token limit of ${usage.quota.toLocaleString('en-US')} reached. It resets at 00:00 UTC.`, retryAfter);
+    }
+    next();
+});
@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { ValidationError } from './errors.js';
+import type { ProviderLimits } from './providers.js';
+import type { SessionCursor } from './store.js';
+import { BUILT_IN_COMMANDS, MAX_TEMPLATE_VARIABLES, templateVariables } from './templates.js';
+
+// Parses input with a schema, throwing a ValidationError for the first problem found
+// Top-level fields carry their own messages; nested ones (e.g. imports) get their path prefixed
+export function parse<T extends z.ZodTypeAny>(schema: T, data: unknown): z.infer<T> {
+    const result = schema.safeParse(data);
+    if (result.success) return result.data;
+
+    const issue = result.error.issues[0];
+    const message = issue.path.length > 1 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+    throw new ValidationError(message);
+}
+
+// Route params like :sessionId and :messageId
+export const idParam = z.string().regex(/^\d+$/, 'Id must be a positive integer').transform(Number);
+
+const nonEmptyText = (message: string) => z.string({ required_error: message, invalid_type_error: message })
+    .refine((value) => value.trim().length > 0, message);
+
+// Cursor pagination: `before` is the cursor returned with the previous page
+export const pageQuerySchema = z.object({
+    before: idParam.optional(),
+    limit: idParam.pipe(z.number().min(1, 'Limit must be between 1 and 100').max(100, 'Limit must be between 1 and 100')).optional(),
+});
+
+// Turns a session's sort key into the session list's next_cursor, which clients pass back as is
+export function encodeSessionCursor({ pinned, created_at, id }: SessionCursor): string {
+    return Buffer.from(JSON.stringify([pinned, created_at, id])).toString('base64url');
+}
+
+const sessionCursorSchema = z.string().transform((value, ctx): SessionCursor => {
+    try {
+        const [pinned, created_at, id] = JSON.parse(Buffer.from(value, 'base64url').toString());
+        if (typeof pinned === 'boolean' && typeof created_at === 'string' && !Number.isNaN(Date.parse(created_at)) && Number.isInteger(id)) {
+            return { pinned, created_at, id };
+        }
+    } catch {
+        // Not JSON; reported below
+    }
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+    return z.NEVER;
+});
+
+// Filters for the session list: folder is a folder id or "none" (not in a folder),
+// archived=true lists archived sessions instead of the others
+// `before` is a next_cursor from encodeSessionCursor rather than an id
+export const sessionListQuerySchema = pageQuerySchema.extend({
+    before: sessionCursorSchema.optional(),
+    folder: z.string().regex(/^(none|\d+)$/, 'Folder must be a folder id or "none"')
+        .transform((value) => (value === 'none' ? null : Number(value)))
+        .optional(),
+    tag: idParam.optional(),
+    archived: z.enum(['true', 'false'], { message: 'Archived must be "true" or "false"' }).transform((value) => value === 'true').optional(),
+});
+
+export const credentialsSchema = z.object({
+    username: z.string({ required_error: 'Username is required' }).trim()
+        .min(2, 'Username must be at least 2 characters')
+        .max(50, 'Username must be at most 50 characters'),
+    password: z.string({ required_error: 'Password is required' })
+        .min(8, 'Password must be at least 8 characters')
+        .max(200, 'Password must be at most 200 characters'),
+});
+
+export const createSessionSchema = z.object({
+    title: z.string().trim().max(100, 'Title must be at most 100 characters').optional(),
+});
+
+export const MAX_TAGS_PER_SESSION = 20;
+
+// Session patch; fields left out keep their current value
+export const sessionPatchSchema = z.object({
+    title: z.string({ invalid_type_error: 'Title must be text' }).trim()
+        .min(1, 'Title cannot be empty')
+        .max(100, 'Title must be at most 100 characters')
+        .optional(),
+    // null takes the session out of its folder
+    folderId: z.number({ invalid_type_error: 'Folder id must be a number' }).int().positive().nullable().optional(),
+    pinned: z.boolean({ invalid_type_error: 'Pinned must be true or false' }).optional(),
+    archived: z.boolean({ invalid_type_error: 'Archived must be true or false' }).optional(),
+    tagIds: z.array(z.number().int().positive(), { invalid_type_error: 'Tag ids must be an array' })
+        .max(MAX_TAGS_PER_SESSION, `A chat can have at most ${MAX_TAGS_PER_SESSION} tags`)
+        .optional(),
+});
+
+export type SessionPatch = z.infer<typeof sessionPatchSchema>;
+
+export const folderSchema = z.object({
+    name: z.string({ required_error: 'Folder name is required', invalid_type_error: 'Folder name must be text' }).trim()
+        .min(1, 'Folder name cannot be empty')
+        .max(100, 'Folder name must be at most 100 characters'),
+});
+
+export const tagSchema = z.object({
+    name: z.string({ required_error: 'Tag name is required', invalid_type_error: 'Tag name must be text' }).trim()
+        .min(1, 'Tag name cannot be empty')
+        .max(50, 'Tag name must be at most 50 characters'),
+});
+
+// Body of POST /templates and PATCH /templates/:templateId; the name is the slash command that runs it
+export const templateSchema = z.object({
+    name: z.string({ required_error: 'Template name is required', invalid_type_error: 'Template name must be text' }).trim()
+        .min(1, 'Template name cannot be empty')
+        .max(50, 'Template name must be at most 50 characters')
+        .regex(/^[\w-]+$/, 'Template names can only contain letters, digits, "_" and "-"')
+        .refine((name) => !BUILT_IN_COMMANDS.includes(name.toLowerCase()), (name) => ({ message: `/${name} is a built-in command` })),
+    description: z.string({ invalid_type_error: 'Description must be text' }).trim()
+        .max(200, 'Description must be at most 200 characters')
+        .default(''),
+    content: nonEmptyText('Template content cannot be empty')
+        .refine((content) => content.length <= 10_000, 'Template content must be at most 10000 characters')
+        .refine((content) => templateVariables(content).length <= MAX_TEMPLATE_VARIABLES, `A template can have at most ${MAX_TEMPLATE_VARIABLES} variables`),
+});
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+export const chatSchema = z.object({
+    message: nonEmptyText('Message cannot be empty'),
+    // Uploads from POST /attachments to send with this message
+    attachmentIds: z.array(z.number().int().positive(), { invalid_type_error: 'Attachment ids must be an array' })
+        .max(MAX_ATTACHMENTS_PER_MESSAGE, `At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to a message`)
+        .default([]),
+});
+
+// X-Filename header of an upload, URI-encoded by the client so any name fits in a header
+export const attachmentNameSchema = z.string({ required_error: 'Missing X-Filename header' })
+    .transform((value, ctx) => {
+        try {
+            return decodeURIComponent(value).split(/[\\/]/).pop()!.trim();
+        } catch {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid X-Filename header' });
+            return z.NEVER;
+        }
+    })
+    .pipe(z.string().min(1, 'File name is required').max(255, 'File name must be at most 255 characters'));
+
+export const MAX_SHARE_DAYS = 365;
+
+// Body of POST /sessions/:sessionId/shares; null (the default) makes a link that never expires
+export const createShareSchema = z.object({
+    expiresInDays: z.number({ invalid_type_error: 'Expiry must be a number of days' }).int('Expiry must be a whole number of days')
+        .min(1, `Expiry must be between 1 and ${MAX_SHARE_DAYS} days`)
+        .max(MAX_SHARE_DAYS, `Expiry must be between 1 and ${MAX_SHARE_DAYS} days`)
+        .nullable().default(null),
+});
+
+export const editMessageSchema = z.object({
+    content: nonEmptyText('Message cannot be empty'),
+});
+
+export const searchQuerySchema = z.object({
+    q: z.string().trim().max(200, 'Search query is too long').default(''),
+});
+
+// Admin user list: q filters by username
+export const adminUserQuerySchema = pageQuerySchema.extend({
+    q: z.string().trim().max(50, 'Search query is too long').default(''),
+});
+
+// Role and disabled flag an admin can change; at least one is required
+export const adminUserPatchSchema = z.object({
+    role: z.enum(['user', 'admin'], { message: 'Role must be "user" or "admin"' }).optional(),
+    disabled: z.boolean({ invalid_type_error: 'Disabled must be true or false' }).optional(),
+}).refine((patch) => patch.role !== undefined || patch.disabled !== undefined, 'Nothing to change');
+
+// Admin audit log, optionally only the entries about one user
+export const auditQuerySchema = pageQuerySchema.extend({
+    user: idParam.optional(),
+});
+
+export const exportQuerySchema = z.object({
+    format: z.enum(['md', 'json'], { message: 'Format must be "md" or "json"' }).default('json'),
+});
+
+// Settings patch checked against the active provider's models and limits
+// Fields left out keep their current value, null resets to the default
+export function settingsPatchSchema(models: string[], limits: ProviderLimits) {
+    return z.object({
+        model: z.string().refine((model) => models.includes(model), 'Unknown model').nullable().optional(),
+        systemPrompt: z.string().max(4000, 'System prompt must be at most 4000 characters').nullable().optional(),
+        temperature: z.number({ invalid_type_error: 'Temperature must be a number' })
+            .min(limits.minTemperature, `Temperature must be between ${limits.minTemperature} and ${limits.maxTemperature}`)
+            .max(limits.maxTemperature, `Temperature must be between ${limits.minTemperature} and ${limits.maxTemperature}`)
+            .nullable().optional(),
+        maxTokens: z.number({ invalid_type_error: 'Max tokens must be a number' }).int('Max tokens must be a whole number')
+            .min(1, `Max tokens must be between 1 and ${limits.maxTokens}`)
+            .max(limits.maxTokens, `Max tokens must be between 1 and ${limits.maxTokens}`)
+            .nullable().optional(),
+        retrieval: z.boolean({ invalid_type_error: 'Retrieval must be true or false' }).optional(),
+    });
+}
+
+export type SettingsPatch = z.infer<ReturnType<typeof settingsPatchSchema>>;
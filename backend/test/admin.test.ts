@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AuditEntry, User, UserStats } from '../src/db.js';
+import { register, request, startServer, type ErrorBody, type TestProcess } from './helpers.js';
+
+let server: TestProcess;
+let admin: { token: string; id: number };
+
+beforeAll(async () => {
+    server = await startServer({ ADMIN_USERNAMES: 'root' });
+    admin = await register(server, 'root');
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+describe('admin', () => {
+    it('is only open to admins', async () => {
+        const user = await register(server, 'regular');
+        expect((await request(server, '/api/admin/users', { token: user.token })).status).toBe(403);
+
+        const { status, body } = await request<{ users: UserStats[] }>(server, '/api/admin/users?q=regular', { token: admin.token });
+        expect(status).toBe(200);
+        expect(body.users.map((u) => u.username)).toEqual(['regular']);
+    });
+
+    it('disabling an account signs it out and blocks logging in, and is audited', async () => {
+        const user = await register(server, 'troublemaker');
+
+        const patch = await request<{ user: User }>(server, `/api/admin/users/${user.id}`, { method: 'PATCH', token: admin.token, body: { disabled: true } });
+        expect(patch.status).toBe(200);
+        expect(patch.body.user.disabled_at).not.toBeNull();
+        expect((await request(server, '/api/sessions', { token: user.token })).status).toBe(401);
+        const login = await request<ErrorBody>(server, '/api/auth/login', { body: { username: 'troublemaker', password: 'secret123' } });
+        expect(login.status).toBe(401);
+        expect(login.body.error).toMatch(/disabled/);
+
+        const audit = await request<{ entries: AuditEntry[] }>(server, `/api/admin/audit?user=${user.id}`, { token: admin.token });
+        expect(audit.body.entries[0]).toMatchObject({ action: 'user.disable', admin_username: 'root', target_username: 'troublemaker' });
+    });
+
+    it("won't let admins lock themselves out", async () => {
+        const { status } = await request(server, `/api/admin/users/${admin.id}`, { method: 'PATCH', token: admin.token, body: { role: 'user' } });
+        expect(status).toBe(400);
+    });
+});
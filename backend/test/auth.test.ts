@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message, SearchResult, Session, User } from '../src/db.js';
+import { createSession, register, request, startServer, type ErrorBody, type TestProcess } from './helpers.js';
+
+let server: TestProcess;
+
+beforeAll(async () => {
+    server = await startServer();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+// What register and login answer with
+interface AuthBody {
+    token: string;
+    user: User;
+}
+
+describe('accounts', () => {
+    it('registers a user and never returns the password hash', async () => {
+        const { status, body } = await request<AuthBody>(server, '/api/auth/register', { body: { username: 'Alice', password: 'secret123' } });
+        expect(status).toBe(201);
+        expect(body.user).toMatchObject({ username: 'alice', role: 'user', disabled_at: null });
+        expect(body.user).not.toHaveProperty('password_hash');
+        expect(body.token).toEqual(expect.any(String));
+    });
+
+    it('rejects a taken username, ignoring case', async () => {
+        await register(server, 'bob');
+        const { status } = await request(server, '/api/auth/register', { body: { username: 'BOB', password: 'secret123' } });
+        expect(status).toBe(409);
+    });
+
+    it('rejects short passwords', async () => {
+        const { status, body } = await request<ErrorBody>(server, '/api/auth/register', { body: { username: 'carol', password: 'short' } });
+        expect(status).toBe(400);
+        expect(body.error).toMatch(/at least 8/);
+    });
+
+    it('logs in with the right password only', async () => {
+        await register(server, 'dave', 'correct-horse');
+        const wrong = await request<ErrorBody>(server, '/api/auth/login', { body: { username: 'dave', password: 'battery-staple' } });
+        expect(wrong.status).toBe(401);
+        const unknown = await request<ErrorBody>(server, '/api/auth/login', { body: { username: 'nobody', password: 'battery-staple' } });
+        expect(unknown.status).toBe(401);
+        expect(unknown.body.error).toBe(wrong.body.error);
+
+        const right = await request<AuthBody>(server, '/api/auth/login', { body: { username: 'DAVE', password: 'correct-horse' } });
+        expect(right.status).toBe(200);
+        const me = await request<{ user: User }>(server, '/api/auth/me', { token: right.body.token });
+        expect(me.body.user.username).toBe('dave');
+    });
+
+    it('requires a valid token', async () => {
+        expect((await request(server, '/api/sessions')).status).toBe(401);
+        expect((await request(server, '/api/sessions', { token: 'not-a-token' })).status).toBe(401);
+    });
+});
+
+describe('ownership', () => {
+    it("hides other users' chats as if they didn't exist", async () => {
+        const owner = await register(server, 'owner');
+        const other = await register(server, 'intruder');
+        const sessionId = await createSession(server, owner.token);
+        await request(server, `/api/sessions/${sessionId}/chat`, { token: owner.token, body: { message: 'private' } });
+
+        for (const [method, path, body] of [
+            ['GET', `/api/sessions/${sessionId}`, undefined],
+            ['GET', `/api/sessions/${sessionId}/messages`, undefined],
+            ['PATCH', `/api/sessions/${sessionId}`, { title: 'mine now' }],
+            ['POST', `/api/sessions/${sessionId}/chat`, { message: 'hi' }],
+            ['DELETE', `/api/sessions/${sessionId}`, undefined],
+        ] as const) {
+            const { status } = await request(server, path, { method, token: other.token, body });
+            expect(status, `${method} ${path}`).toBe(404);
+        }
+
+        const { status, body } = await request<{ session: Session }>(server, `/api/sessions/${sessionId}`, { token: owner.token });
+        expect(status).toBe(200);
+        expect(body.session.title).not.toBe('mine now');
+    });
+
+    it("won't reach a message through another chat", async () => {
+        const user = await register(server, 'twochats');
+        const first = await createSession(server, user.token);
+        const second = await createSession(server, user.token);
+        const { body } = await request<{ response: Message }>(server, `/api/sessions/${first}/chat`, { token: user.token, body: { message: 'hello' } });
+
+        const { status } = await request(server, `/api/sessions/${second}/messages/${body.response.id}/select`, { token: user.token, body: {} });
+        expect(status).toBe(404);
+    });
+
+    it("keeps search results to the user's own chats", async () => {
+        const owner = await register(server, 'searcher');
+        const other = await register(server, 'snoop');
+        const sessionId = await createSession(server, owner.token);
+        await request(server, `/api/sessions/${sessionId}/chat`, { token: owner.token, body: { message: 'pineapple smoothie' } });
+
+        const own = await request<{ results: SearchResult[] }>(server, '/api/search?q=pineapple', { token: owner.token });
+        expect(own.body.results.map((result) => result.session_id)).toContain(sessionId);
+        const others = await request<{ results: SearchResult[] }>(server, '/api/search?q=pineapple', { token: other.token });
+        expect(others.body.results).toEqual([]);
+    });
+});
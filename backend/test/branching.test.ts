@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message } from '../src/db.js';
+import { createSession, register, request, startServer, stream, type MessagePage, type TestProcess } from './helpers.js';
+
+let server: TestProcess;
+let token: string;
+
+beforeAll(async () => {
+    server = await startServer();
+    ({ token } = await register(server, 'brancher'));
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+// Sends a message on the non-streaming route and returns the saved reply
+async function chat(sessionId: number, message: string): Promise<Message> {
+    const { body } = await request<{ response: Message }>(server, `/api/sessions/${sessionId}/chat`, { token, body: { message } });
+    return body.response;
+}
+
+// The selected branch of a session, root first
+async function branch(sessionId: number): Promise<MessagePage['messages']> {
+    const { body } = await request<MessagePage>(server, `/api/sessions/${sessionId}/messages`, { token });
+    return body.messages;
+}
+
+describe('branching', () => {
+    it('editing a message starts a new branch, and the old one can be selected again', async () => {
+        const sessionId = await createSession(server, token);
+        await chat(sessionId, 'first');
+        await chat(sessionId, 'second');
+        const [first] = await branch(sessionId);
+
+        const events = await stream(server, `/api/sessions/${sessionId}/messages/${first.id}/edit`, token, { content: 'first, edited' });
+        expect(events[events.length - 1].event).toBe('done');
+
+        const edited = await branch(sessionId);
+        expect(edited.map((m) => m.content)).toEqual(['first, edited', 'Mock reply to: "first, edited"']);
+        expect(edited[0].sibling_ids).toEqual([first.id, edited[0].id]);
+
+        const original = ['first', 'Mock reply to: "first"', 'second', 'Mock reply to: "second"'];
+        const selected = await request<MessagePage>(server, `/api/sessions/${sessionId}/messages/${first.id}/select`, { token, body: {} });
+        expect(selected.body.messages.map((m) => m.content)).toEqual(original);
+        expect((await branch(sessionId)).map((m) => m.content)).toEqual(original);
+    });
+
+    it('regenerating a reply adds a sibling reply to the same message', async () => {
+        const sessionId = await createSession(server, token);
+        const reply = await chat(sessionId, 'again');
+
+        await stream(server, `/api/sessions/${sessionId}/messages/${reply.id}/regenerate`, token);
+
+        const messages = await branch(sessionId);
+        expect(messages).toHaveLength(2);
+        expect(messages[1].id).not.toBe(reply.id);
+        expect(messages[1].parent_id).toBe(reply.parent_id);
+        expect(messages[1].sibling_ids).toEqual([reply.id, messages[1].id]);
+    });
+
+    it('only regenerates assistant replies and only edits user messages', async () => {
+        const sessionId = await createSession(server, token);
+        const reply = await chat(sessionId, 'hi');
+
+        const regenerate = await request(server, `/api/sessions/${sessionId}/messages/${reply.parent_id}/regenerate`, { token, body: {} });
+        expect(regenerate.status).toBe(400);
+        const edit = await request(server, `/api/sessions/${sessionId}/messages/${reply.id}/edit`, { token, body: { content: 'changed' } });
+        expect(edit.status).toBe(400);
+    });
+});
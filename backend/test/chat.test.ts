@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message } from '../src/db.js';
+import { createSession, register, request, startServer, stream, type MessagePage, type TestProcess } from './helpers.js';
+
+let server: TestProcess;
+let token: string;
+
+beforeAll(async () => {
+    server = await startServer();
+    ({ token } = await register(server, 'chatter'));
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+describe('replies', () => {
+    it('streams a reply token by token and saves it', async () => {
+        const sessionId = await createSession(server, token);
+        const events = await stream(server, `/api/sessions/${sessionId}/chat/stream`, token, { message: 'hello there' });
+
+        expect(events[0]).toEqual({ event: 'model', data: { model: 'mock-echo' } });
+        const deltas = events.flatMap((e) => (e.event === 'delta' ? [e.data.text] : []));
+        expect(deltas.length).toBeGreaterThan(1);
+        expect(deltas.join('')).toBe('Mock reply to: "hello there"');
+
+        const done = events[events.length - 1];
+        if (done.event !== 'done') throw new Error(`Expected a done event, got ${done.event}`);
+        expect(done.data.response).toMatchObject({ role: 'assistant', content: deltas.join(''), model: 'mock-echo', status: 'complete' });
+
+        const { body } = await request<MessagePage>(server, `/api/sessions/${sessionId}/messages`, { token });
+        expect(body.messages.map((message) => message.content)).toEqual(['hello there', deltas.join('')]);
+    });
+
+    it('answers in one response on the non-streaming route', async () => {
+        const sessionId = await createSession(server, token);
+        const { status, body } = await request<{ response: Message; tool_messages: Message[] }>(server, `/api/sessions/${sessionId}/chat`, { token, body: { message: 'hi' } });
+
+        expect(status).toBe(200);
+        expect(body.response).toMatchObject({ role: 'assistant', content: 'Mock reply to: "hi"' });
+        expect(body.tool_messages).toEqual([]);
+    });
+});
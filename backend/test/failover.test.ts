@@ -0,0 +1,180 @@
+import { APICallError } from 'ai';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { modelChain, withFailover, type ModelTarget } from '../src/failover.js';
+import type { Message } from '../src/db.js';
+import { getActiveProvider } from '../src/providers.js';
+import { createSession, register, request, startFakeLlm, startServer, type TestProcess } from './helpers.js';
+
+// Breakers are kept per target for the whole process, so every test uses its own model ids
+let nextModel = 0;
+function target(): ModelTarget {
+    const provider = getActiveProvider();
+    return { provider, modelId: `test-model-${++nextModel}` };
+}
+
+function apiError(statusCode: number): APICallError {
+    return new APICallError({ message: `Failed with ${statusCode}`, url: 'http://llm.test', requestBodyValues: {}, statusCode, isRetryable: statusCode >= 500 || statusCode === 429 });
+}
+
+describe('withFailover', () => {
+    beforeEach(() => {
+        Object.assign(process.env, {
+            LLM_PROVIDER: 'mock',
+            LLM_FALLBACKS: '',
+            LLM_TIMEOUT_MS: '1000',
+            LLM_MAX_RETRIES: '2',
+            LLM_RETRY_BASE_MS: '1',
+            LLM_BREAKER_THRESHOLD: '3',
+            LLM_BREAKER_COOLDOWN_MS: '30000',
+        });
+    });
+
+    it('retries retryable errors on the same target', async () => {
+        const primary = target();
+        let calls = 0;
+        const { result, target: used } = await withFailover([primary], undefined, async () => {
+            if (++calls < 3) throw apiError(503);
+            return 'ok';
+        });
+        expect(result).toBe('ok');
+        expect(used).toBe(primary);
+        expect(calls).toBe(3);
+    });
+
+    it('moves on to the next target after a non-retryable error or the last retry', async () => {
+        const [unauthorized, unavailable, backup] = [target(), target(), target()];
+        const tried: string[] = [];
+        const { result } = await withFailover([unauthorized, unavailable, backup], undefined, async (current) => {
+            tried.push(current.modelId);
+            if (current === unauthorized) throw apiError(401);
+            if (current === unavailable) throw apiError(503);
+            return current.modelId;
+        });
+        expect(result).toBe(backup.modelId);
+        expect(tried).toEqual([unauthorized.modelId, unavailable.modelId, unavailable.modelId, unavailable.modelId, backup.modelId]);
+    });
+
+    it('throws the last error when every target fails', async () => {
+        await expect(withFailover([target(), target()], undefined, async () => {
+            throw apiError(400);
+        })).rejects.toThrow('Failed with 400');
+    });
+
+    it('times attempts out after LLM_TIMEOUT_MS and retries them', async () => {
+        process.env.LLM_TIMEOUT_MS = '20';
+        let calls = 0;
+        const { result } = await withFailover([target()], undefined, (_target, signal) => {
+            if (++calls > 1) return Promise.resolve('fast');
+            return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+        });
+        expect(result).toBe('fast');
+        expect(calls).toBe(2);
+    });
+
+    it('stops without trying other targets when the request is aborted', async () => {
+        const controller = new AbortController();
+        const tried: string[] = [];
+        const failing = withFailover([target(), target()], controller.signal, async (current) => {
+            tried.push(current.modelId);
+            controller.abort(new Error('Stopped'));
+            throw apiError(503);
+        });
+        await expect(failing).rejects.toThrow();
+        expect(tried).toHaveLength(1);
+    });
+
+    it('opens the breaker after LLM_BREAKER_THRESHOLD failures and skips the target', async () => {
+        process.env.LLM_MAX_RETRIES = '0';
+        process.env.LLM_BREAKER_THRESHOLD = '2';
+        const [broken, backup] = [target(), target()];
+        const tried: string[] = [];
+        const attempt = async (current: ModelTarget) => {
+            tried.push(current.modelId);
+            if (current === broken) throw apiError(503);
+            return current.modelId;
+        };
+
+        await withFailover([broken, backup], undefined, attempt);
+        await withFailover([broken, backup], undefined, attempt);
+        tried.length = 0;
+        const { target: used } = await withFailover([broken, backup], undefined, attempt);
+        expect(used).toBe(backup);
+        expect(tried).toEqual([backup.modelId]);
+
+        await expect(withFailover([broken], undefined, attempt)).rejects.toThrow(/unavailable/);
+    });
+
+    it('lets one trial request through after LLM_BREAKER_COOLDOWN_MS and closes on success', async () => {
+        process.env.LLM_MAX_RETRIES = '0';
+        process.env.LLM_BREAKER_THRESHOLD = '1';
+        process.env.LLM_BREAKER_COOLDOWN_MS = '50';
+        const flaky = target();
+        let healthy = false;
+        const attempt = async () => {
+            if (!healthy) throw apiError(503);
+            return 'recovered';
+        };
+
+        await expect(withFailover([flaky], undefined, attempt)).rejects.toThrow('Failed with 503');
+        await expect(withFailover([flaky], undefined, attempt)).rejects.toThrow(/unavailable/);
+
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        healthy = true;
+        expect((await withFailover([flaky], undefined, attempt)).result).toBe('recovered');
+        expect((await withFailover([flaky], undefined, attempt)).result).toBe('recovered');
+    });
+
+    it('builds the chain from the session model and LLM_FALLBACKS without duplicates', () => {
+        process.env.LLM_FALLBACKS = 'mock, mock:mock-backup, mock:mock-backup';
+        expect(modelChain().map((entry) => entry.modelId)).toEqual(['mock-echo', 'mock-backup']);
+
+        process.env.LLM_FALLBACKS = 'nope';
+        expect(() => modelChain()).toThrow(/Unknown LLM provider "nope"/);
+    });
+
+    it("falls back to the default model when a chat's model is no longer offered", () => {
+        expect(modelChain('retired-model')[0].modelId).toBe('mock-echo');
+    });
+});
+
+describe('failover through the API', () => {
+    let fakeLlm: TestProcess;
+    let server: TestProcess;
+    let token: string;
+
+    beforeAll(async () => {
+        fakeLlm = await startFakeLlm();
+        server = await startServer({
+            LLM_PROVIDER: 'openai-compatible',
+            OPENAI_COMPATIBLE_BASE_URL: fakeLlm.url,
+            OPENAI_COMPATIBLE_MODELS: 'flaky-1,fail-401',
+            LLM_FALLBACKS: 'openai-compatible:backup',
+            LLM_RETRY_BASE_MS: '1',
+        });
+        ({ token } = await register(server, 'failover'));
+    });
+
+    afterAll(async () => {
+        await server?.stop();
+        await fakeLlm?.stop();
+    });
+
+    // Sends a message in a new chat set to `model`
+    async function chatWith(model: string, message: string) {
+        const sessionId = await createSession(server, token);
+        await request(server, `/api/sessions/${sessionId}/settings`, { method: 'PATCH', token, body: { model } });
+        return request<{ response: Message }>(server, `/api/sessions/${sessionId}/chat`, { token, body: { message } });
+    }
+
+    it('retries a model that fails with 503', async () => {
+        const { status, body } = await chatWith('flaky-1', 'hello');
+        expect(status).toBe(200);
+        expect(body.response).toMatchObject({ content: 'Fake reply from flaky-1: "hello"', model: 'flaky-1' });
+    });
+
+    it('falls back to the next model when the first one refuses the request', async () => {
+        const { status, body } = await chatWith('fail-401', 'hello');
+        expect(status).toBe(200);
+        expect(body.response).toMatchObject({ content: 'Fake reply from backup: "hello"', model: 'backup' });
+    });
+});
@@ -0,0 +1,149 @@
+import { spawn } from 'child_process';
+import net from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Message, PageMessage, Session, User } from '../src/db.js';
+
+const backendDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// A backend or fake LLM process started for a test file
+export interface TestProcess {
+    url: string;
+    stop(): Promise<void>;
+}
+
+// A response from the test server; body is the parsed JSON, typed by the caller
+export interface TestResponse<T = unknown> {
+    status: number;
+    body: T;
+}
+
+// What every failed request answers with
+export interface ErrorBody {
+    success: false;
+    error: string;
+}
+
+// Events of a streamed reply, as sent by streamReply in src/index.ts
+export type StreamEvent =
+    | { event: 'model'; data: { model: string } }
+    | { event: 'delta'; data: { text: string } }
+    | { event: 'tool'; data: { message: Message } }
+    | { event: 'done'; data: { success: true; response: Message } }
+    | { event: 'error'; data: { success: false; error: string; response: Message } };
+
+// The page of a branch that the message routes return
+export interface MessagePage {
+    messages: PageMessage[];
+    next_cursor: number | null;
+}
+
+// A port nothing is listening on (the OS picks it)
+async function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+// Runs a TypeScript entry point of the backend and waits until it logs `ready`; returns a function that stops it
+async function startProcess(script: string, env: Record<string, string>, ready: string): Promise<() => Promise<void>> {
+    const child = spawn(process.execPath, ['--import', 'tsx', script], {
+        cwd: backendDir,
+        env: { ...process.env, ...env },
+        stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    let output = '';
+    await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`${script} did not start:\n${output}`)), 30_000);
+        const onData = (chunk: Buffer) => {
+            output += chunk.toString();
+            if (output.includes(ready)) {
+                clearTimeout(timer);
+                resolve();
+            }
+        };
+        child.stdout.on('data', onData);
+        child.stderr.on('data', onData);
+        child.on('exit', (code) => {
+            clearTimeout(timer);
+            reject(new Error(`${script} exited with code ${code}:\n${output}`));
+        });
+    });
+    return () => new Promise((resolve) => {
+        if (child.exitCode !== null) return resolve();
+        child.removeAllListeners('exit');
+        child.on('exit', () => resolve());
+        child.kill();
+    });
+}
+
+// Starts the backend with in-memory storage, the mock model and no rate limits; env overrides any of it
+export async function startServer(env: Record<string, string> = {}): Promise<TestProcess> {
+    const port = await freePort();
+    const stop = await startProcess('src/index.ts', {
+        STORAGE: 'memory',
+        DATABASE_URL: '',
+        LLM_PROVIDER: 'mock',
+        LLM_FALLBACKS: '',
+        AUTH_SECRET: 'test-secret',
+        RATE_LIMIT_IP_PER_MINUTE: '0',
+        RATE_LIMIT_CHAT_PER_MINUTE: '0',
+        DAILY_TOKEN_QUOTA: '0',
+        ...env,
+        PORT: String(port),
+    }, 'Backend running');
+    return { url: `http://localhost:${port}`, stop };
+}
+
+// Starts the fake OpenAI-compatible server (src/fakeLlm.ts); url is its /v1 base URL
+export async function startFakeLlm(): Promise<TestProcess> {
+    const port = await freePort();
+    const stop = await startProcess('src/fakeLlm.ts', { FAKE_LLM_PORT: String(port) }, 'Fake LLM listening');
+    return { url: `http://localhost:${port}/v1`, stop };
+}
+
+// Calls a JSON endpoint of the test server; T is the body the test expects back
+export async function request<T = unknown>(server: TestProcess, path: string, options: { method?: string; token?: string; body?: unknown } = {}): Promise<TestResponse<T>> {
+    const response = await fetch(`${server.url}${path}`, {
+        method: options.method ?? (options.body === undefined ? 'GET' : 'POST'),
+        headers: {
+            ...(options.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+            ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+        },
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    return { status: response.status, body: await response.json() as T };
+}
+
+// Calls a streaming endpoint and returns its Server-Sent Events in order
+export async function stream(server: TestProcess, path: string, token: string, body: unknown = {}): Promise<StreamEvent[]> {
+    const response = await fetch(`${server.url}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+    });
+    const text = await response.text();
+    return text.split('\n\n').filter(Boolean).map((chunk) => {
+        const event = /^event: (.*)$/m.exec(chunk)?.[1] ?? 'message';
+        const data = /^data: (.*)$/m.exec(chunk)?.[1] ?? 'null';
+        return { event, data: JSON.parse(data) } as StreamEvent;
+    });
+}
+
+// Registers a user and returns their token and id
+export async function register(server: TestProcess, username: string, password = 'secret123'): Promise<{ token: string; id: number }> {
+    const { body } = await request<{ token: string; user: User } | ErrorBody>(server, '/api/auth/register', { body: { username, password } });
+    if ('error' in body) throw new Error(`Registering ${username} failed: ${body.error}`);
+    return { token: body.token, id: body.user.id };
+}
+
+// Creates a chat for the user and returns its id
+export async function createSession(server: TestProcess, token: string, title = 'Test chat'): Promise<number> {
+    const { body } = await request<{ session: Session }>(server, '/api/sessions', { token, body: { title } });
+    return body.session.id;
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryStore } from '../src/memoryStore.js';
+import type { ChatStore, User } from '../src/store.js';
+
+let store: ChatStore;
+let user: User;
+
+beforeEach(async () => {
+    store = createMemoryStore();
+    await store.initDatabase();
+    user = await store.createUser('alice', 'hash');
+});
+
+describe('users', () => {
+    it('keeps the password hash out of everything but the login lookup', async () => {
+        expect(await store.getUserByUsername('alice')).toMatchObject({ id: user.id, password_hash: 'hash' });
+        expect(await store.getUserById(user.id)).not.toHaveProperty('password_hash');
+        expect(user).not.toHaveProperty('password_hash');
+    });
+
+    it('deletes everything an account owns with it', async () => {
+        const session = await store.createSession(user.id, 'Mine');
+        const message = await store.saveMessage(session.id, 'user', 'hello', null);
+
+        await store.deleteUser(user.id);
+        expect(await store.getUserById(user.id)).toBeNull();
+        expect(await store.getSession(session.id)).toBeNull();
+        expect(await store.getMessage(message.id)).toBeNull();
+    });
+});
+
+describe('sessions', () => {
+    it('lists pinned sessions first, then newest first, and pages with before', async () => {
+        const [first, second, third] = [await store.createSession(user.id, 'First'), await store.createSession(user.id, 'Second'), await store.createSession(user.id, 'Third')];
+        await store.updateSessionOrganization(first.id, { folder_id: null, pinned: true, archived: false, tag_ids: [] });
+
+        const all = await store.getUserSessions(user.id, {});
+        expect(all.map((session) => session.id)).toEqual([first.id, third.id, second.id]);
+        const page = await store.getUserSessions(user.id, {}, third, 1);
+        expect(page.map((session) => session.id)).toEqual([second.id]);
+
+        await store.deleteSession(third.id);
+        expect((await store.getUserSessions(user.id, {}, third)).map((session) => session.id)).toEqual([second.id]);
+    });
+
+    it('leaves archived sessions and other users\' sessions out unless asked for', async () => {
+        const other = await store.createUser('bob', 'hash');
+        await store.createSession(other.id, 'Not yours');
+        const archived = await store.createSession(user.id, 'Old');
+        await store.updateSessionOrganization(archived.id, { folder_id: null, pinned: false, archived: true, tag_ids: [] });
+
+        expect(await store.getUserSessions(user.id, {})).toEqual([]);
+        expect((await store.getUserSessions(user.id, { archived: true })).map((session) => session.id)).toEqual([archived.id]);
+    });
+});
+
+describe('messages', () => {
+    it('keeps alternatives as siblings and follows the selected branch', async () => {
+        const session = await store.createSession(user.id);
+        const question = await store.saveMessage(session.id, 'user', 'question', null);
+        const firstReply = await store.saveMessage(session.id, 'assistant', 'first reply', question.id);
+        const secondReply = await store.saveMessage(session.id, 'assistant', 'second reply', question.id);
+
+        expect((await store.getSession(session.id))!.active_message_id).toBe(secondReply.id);
+        const path = await store.getMessagePath(session.id, secondReply.id);
+        expect(path.map((message) => message.content)).toEqual(['question', 'second reply']);
+        expect(path[1].sibling_ids).toEqual([firstReply.id, secondReply.id]);
+
+        await store.setActiveMessage(session.id, firstReply.id);
+        expect((await store.getSession(session.id))!.active_message_id).toBe(firstReply.id);
+        expect(await store.getMessagePath(session.id, firstReply.id, 1)).toMatchObject([{ id: firstReply.id }]);
+    });
+
+    it('deletes the messages of a deleted session', async () => {
+        const session = await store.createSession(user.id);
+        const message = await store.saveMessage(session.id, 'user', 'hello', null);
+
+        await store.deleteSession(session.id);
+        expect(await store.getMessage(message.id)).toBeNull();
+        expect(await store.getSessionTree(session.id)).toEqual([]);
+    });
+});
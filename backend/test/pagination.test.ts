@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Session } from '../src/db.js';
+import { createSession, register, request, startServer, type MessagePage, type TestProcess } from './helpers.js';
+
+let server: TestProcess;
+
+beforeAll(async () => {
+    server = await startServer();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+// What GET /api/sessions answers with
+interface SessionPage {
+    sessions: Session[];
+    next_cursor: string | null;
+}
+
+describe('pagination', () => {
+    it('pages through chats newest first with next_cursor', async () => {
+        const { token } = await register(server, 'pager');
+        const ids: number[] = [];
+        for (let i = 0; i < 5; i++) ids.push(await createSession(server, token, `Chat ${i}`));
+
+        const seen: number[] = [];
+        let cursor: string | null = null;
+        do {
+            const query: string = cursor === null ? '?limit=2' : `?limit=2&before=${cursor}`;
+            const { body }: { body: SessionPage } = await request<SessionPage>(server, `/api/sessions${query}`, { token });
+            expect(body.sessions.length).toBeLessThanOrEqual(2);
+            seen.push(...body.sessions.map((session) => session.id));
+            cursor = body.next_cursor;
+        } while (cursor !== null);
+
+        expect(seen).toEqual([...ids].reverse());
+    });
+
+    it('keeps paging after the last chat loaded is deleted', async () => {
+        const { token } = await register(server, 'tidier');
+        const ids: number[] = [];
+        for (let i = 0; i < 3; i++) ids.push(await createSession(server, token, `Chat ${i}`));
+
+        const first = await request<SessionPage>(server, '/api/sessions?limit=1', { token });
+        expect(first.body.sessions[0].id).toBe(ids[2]);
+        await request(server, `/api/sessions/${ids[2]}`, { method: 'DELETE', token });
+
+        const next = await request<SessionPage>(server, `/api/sessions?limit=5&before=${first.body.next_cursor}`, { token });
+        expect(next.body.sessions.map((session) => session.id)).toEqual([ids[1], ids[0]]);
+    });
+
+    it('rejects cursors it did not hand out', async () => {
+        const { token } = await register(server, 'forger');
+        const { status } = await request(server, '/api/sessions?before=12', { token });
+        expect(status).toBe(400);
+    });
+
+    it('pages through a branch from the newest messages back to the root', async () => {
+        const { token } = await register(server, 'scroller');
+        const sessionId = await createSession(server, token);
+        for (const message of ['one', 'two', 'three']) {
+            await request(server, `/api/sessions/${sessionId}/chat`, { token, body: { message } });
+        }
+
+        const newest = await request<MessagePage>(server, `/api/sessions/${sessionId}/messages?limit=4`, { token });
+        expect(newest.body.messages.map((m) => m.content)).toEqual(['two', 'Mock reply to: "two"', 'three', 'Mock reply to: "three"']);
+        expect(newest.body.next_cursor).toBe(newest.body.messages[0].id);
+
+        const older = await request<MessagePage>(server, `/api/sessions/${sessionId}/messages?limit=4&before=${newest.body.next_cursor}`, { token });
+        expect(older.body.messages.map((m) => m.content)).toEqual(['one', 'Mock reply to: "one"']);
+        expect(older.body.next_cursor).toBeNull();
+    });
+
+    it('rejects out-of-range limits', async () => {
+        const { token } = await register(server, 'greedy');
+        const { status } = await request(server, '/api/sessions?limit=500', { token });
+        expect(status).toBe(400);
+    });
+});
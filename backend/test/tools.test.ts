@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Message } from '../src/db.js';
+import { createSession, register, request, startServer, stream, type MessagePage, type TestProcess } from './helpers.js';
+
+let server: TestProcess;
+let token: string;
+
+beforeAll(async () => {
+    server = await startServer({ TOOLS: 'calculator' });
+    ({ token } = await register(server, 'toolsmith'));
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+describe('tool calls', () => {
+    it('saves tool calls between the user message and the reply', async () => {
+        const sessionId = await createSession(server, token);
+        const { body } = await request<{ response: Message; tool_messages: Message[] }>(server, `/api/sessions/${sessionId}/chat`, { token, body: { message: 'tool:calculator {"expression": "6*7"}' } });
+
+        expect(body.tool_messages).toHaveLength(1);
+        expect(body.tool_messages[0]).toMatchObject({ role: 'tool', tool_call: { name: 'calculator', result: { expression: '6*7', result: 42 }, error: null } });
+        expect(body.response.parent_id).toBe(body.tool_messages[0].id);
+        expect(body.response.content).toContain('42');
+
+        const page = await request<MessagePage>(server, `/api/sessions/${sessionId}/messages`, { token });
+        expect(page.body.messages.map((message) => message.role)).toEqual(['user', 'tool', 'assistant']);
+    });
+
+    it('announces each tool call while streaming', async () => {
+        const sessionId = await createSession(server, token);
+        const events = await stream(server, `/api/sessions/${sessionId}/chat/stream`, token, { message: 'tool:calculator {"expression": "1/0"}' });
+
+        const tool = events.find((event) => event.event === 'tool');
+        if (tool?.event !== 'tool') throw new Error('Expected a tool event');
+        expect(tool.data.message.tool_call).toMatchObject({ name: 'calculator', error: expect.any(String) });
+        expect(events[events.length - 1].event).toBe('done');
+    });
+});
+
+describe('without TOOLS', () => {
+    it('offers the model no tools', async () => {
+        const plain = await startServer();
+        try {
+            const { token } = await register(plain, 'plain');
+            const sessionId = await createSession(plain, token);
+            const { body } = await request<{ response: Message; tool_messages: Message[] }>(plain, `/api/sessions/${sessionId}/chat`, { token, body: { message: 'tool:calculator {"expression": "6*7"}' } });
+            expect(body.tool_messages).toEqual([]);
+            expect(body.response.content).toBe('Mock reply to: "tool:calculator {\"expression\": \"6*7\"}"');
+        } finally {
+            await plain.stop();
+        }
+    });
+});
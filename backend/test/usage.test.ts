@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { UsageReport } from '../src/usage.js';
+import { createSession, register, request, startServer, type MessagePage, type TestProcess } from './helpers.js';
+
+let server: TestProcess;
+
+beforeAll(async () => {
+    server = await startServer({ DAILY_TOKEN_QUOTA: '1', MOCK_STREAM_DELAY_MS: '200' });
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+describe('usage', () => {
+    it('counts a stopped reply against the quota', async () => {
+        const { token } = await register(server, 'quitter');
+        const sessionId = await createSession(server, token);
+
+        // Stop the reply as soon as its first words arrive
+        const controller = new AbortController();
+        const response = await fetch(`${server.url}/api/sessions/${sessionId}/chat/stream`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+            body: JSON.stringify({ message: 'a question with a long enough answer' }),
+            signal: controller.signal,
+        });
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let received = '';
+        while (!received.includes('event: delta')) {
+            const { value, done } = await reader.read();
+            if (done) throw new Error('The reply ended before it could be stopped');
+            received += decoder.decode(value, { stream: true });
+        }
+        controller.abort();
+
+        // The stopped reply is saved after its usage is recorded
+        await expect.poll(async () => {
+            const page = await request<MessagePage>(server, `/api/sessions/${sessionId}/messages`, { token });
+            return page.body.messages.at(-1)?.status;
+        }).toBe('interrupted');
+
+        const usage = await request<{ usage: UsageReport }>(server, '/api/usage', { token });
+        expect(usage.body.usage.used_tokens).toBeGreaterThan(0);
+        const { status } = await request(server, `/api/sessions/${sessionId}/chat`, { token, body: { message: 'again' } });
+        expect(status).toBe(429);
+    });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Test files start their own backend processes, so they run one at a time
+export default defineConfig({
+    test: {
+        include: ['test/**/*.test.ts'],
+        fileParallelism: false,
+        hookTimeout: 60_000,
+        testTimeout: 30_000,
+    },
+});
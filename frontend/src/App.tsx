@@ -1,112 +1,377 @@
-import { useState, useEffect, useRef, FormEvent, KeyboardEvent } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, ChangeEvent, FormEvent } from 'react';
+import type { Attachment, Citation, Label, Message, PromptTemplate, SearchResult, Session, ShareLink, Usage, User } from './types.ts';
+import { API_URL, formatSize, formatTime } from './utils.ts';
+import { Markdown, CopyButton } from './components/Markdown.tsx';
+import { AttachmentChip, BranchSwitcher, ToolStep } from './components/MessageParts.tsx';
+import { SharedTranscript } from './components/SharedTranscript.tsx';
+import { AdminConsole } from './components/AdminConsole.tsx';
+import { Sidebar } from './components/Sidebar.tsx';
+import { Composer } from './components/Composer.tsx';
 import './index.css';
 
-interface User {
-    id: number;
-    username: string;
+interface ModelOptions {
+    provider: string;
+    models: string[];
+    limits: { maxTokens: number; minTemperature: number; maxTemperature: number };
+    defaults: { model: string; system_prompt: string; temperature: number; max_tokens: number };
 }
 
-interface Session {
-    id: number;
-    user_id: number;
-    title: string;
-    created_at: string;
+interface SettingsDraft {
+    model: string;
+    systemPrompt: string;
+    temperature: number;
+    maxTokens: number;
+    retrieval: boolean;
 }
 
-interface Message {
-    id: number;
-    session_id: number;
-    role: 'user' | 'assistant';
+// The template being written in the Templates panel (id is null for a new one)
+interface TemplateDraft {
+    id: number | null;
+    name: string;
+    description: string;
     content: string;
+}
+
+// A document in the user's library, searched by chats with retrieval enabled
+interface LibraryDocument {
+    id: number;
+    filename: string;
+    size: number;
+    chunk_count: number;
     created_at: string;
 }
 
-const API_URL = import.meta.env.VITE_API_URL || '';
+// How a streamed reply ended; stopped replies keep the text that had arrived
+type ReplyOutcome = { type: 'done' } | { type: 'stopped'; text: string } | { type: 'failed' };
+
+// One page of a branch, root first; next_cursor is passed as `before` to load the older page
+interface MessagePage {
+    messages: Message[];
+    next_cursor: number | null;
+}
+
+// Pushed by the server when something changes in another tab (see backend/src/realtime.ts)
+type RealtimeEvent =
+    | { type: 'session.created' | 'session.updated'; session: Session }
+    | { type: 'session.deleted'; session_id: number }
+    | { type: 'message.created'; message: Message }
+    | { type: 'messages.cleared'; session_id: number }
+    | { type: 'branch.selected'; session_id: number; message_id: number }
+    | { type: 'organization.changed' }
+    | { type: 'templates.changed' };
+
+const REALTIME_RETRY_MS = 1000;
+const REALTIME_MAX_RETRY_MS = 30_000;
+const REALTIME_REFETCH_DELAY_MS = 300;
+
+// Expiry choices offered when creating a share link (null: never expires)
+const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+    { label: 'Never expires', days: null },
+    { label: 'Expires in 1 day', days: 1 },
+    { label: 'Expires in 7 days', days: 7 },
+    { label: 'Expires in 30 days', days: 30 },
+];
+
+// Token of a /share/<token> URL, which shows a shared transcript instead of the app
+const SHARE_TOKEN = window.location.pathname.match(/^\/share\/([\w-]+)\/?$/)?.[1] ?? null;
+
+// WebSocket URL of the event stream, on the API's host
+function eventsUrl(): string {
+    return `${(API_URL || window.location.origin).replace(/^http/, 'ws')}/api/events`;
+}
+
+// Starts a browser download of a blob
+function saveBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Events of a streamed reply, as sent by streamReply in the backend
+type ReplyStreamEvent =
+    | { event: 'model'; data: { model: string } }
+    | { event: 'delta'; data: { text: string } }
+    | { event: 'tool'; data: { message: Message } }
+    | { event: 'done'; data: { success: true; response: Message } }
+    | { event: 'error'; data: { success: false; error: string; response: Message | null } };
+
+// Reads a Server-Sent Events response body, calling onEvent for each complete event
+async function readEventStream(response: Response, onEvent: (event: ReplyStreamEvent) => void) {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const chunk = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let event = 'message';
+            let data = '';
+            for (const line of chunk.split('\n')) {
+                if (line.startsWith('event: ')) event = line.slice(7);
+                else if (line.startsWith('data: ')) data += line.slice(6);
+            }
+            if (data) onEvent({ event, data: JSON.parse(data) } as ReplyStreamEvent);
+        }
+    }
+}
+
+// Joins the newest page of a branch onto the older messages already loaded, if it continues from them
+function mergeLatestPage(loaded: Message[], page: Message[]): Message[] | null {
+    const index = loaded.findIndex(m => m.id === page[0]?.parent_id);
+    return index === -1 ? null : [...loaded.slice(0, index + 1), ...page];
+}
 
 function App() {
     // Auth state
     const [user, setUser] = useState<User | null>(null);
     const [loginUsername, setLoginUsername] = useState('');
+    const [loginPassword, setLoginPassword] = useState('');
+    const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
     const [loginError, setLoginError] = useState('');
     const [loginLoading, setLoginLoading] = useState(false);
 
     // Session state
     const [sessions, setSessions] = useState<Session[]>([]);
+    // Opaque cursor for the next page of chats
+    const [sessionsCursor, setSessionsCursor] = useState<string | null>(null);
     const [activeSession, setActiveSession] = useState<Session | null>(null);
 
+    // Organization state: the sidebar lists chats with tagFilter (if set), archived or not
+    const [folders, setFolders] = useState<Label[]>([]);
+    const [tags, setTags] = useState<Label[]>([]);
+    const [tagFilter, setTagFilter] = useState<number | null>(null);
+    const [showArchived, setShowArchived] = useState(false);
+
+    // Search hit to scroll to once its branch is loaded
+    const [jumpToMessageId, setJumpToMessageId] = useState<number | null>(null);
+
     // Chat state
     const [messages, setMessages] = useState<Message[]>([]);
-    const [inputValue, setInputValue] = useState('');
+    const [messagesCursor, setMessagesCursor] = useState<number | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [isTyping, setIsTyping] = useState(false);
+    const [streamingText, setStreamingText] = useState('');
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [editText, setEditText] = useState('');
+    const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+    const [uploadCount, setUploadCount] = useState(0);
     const [error, setError] = useState<string | null>(null);
 
+    // Settings state
+    const [modelOptions, setModelOptions] = useState<ModelOptions | null>(null);
+    const [settingsDraft, setSettingsDraft] = useState<SettingsDraft | null>(null);
+    const [settingsError, setSettingsError] = useState<string | null>(null);
+    const [usage, setUsage] = useState<Usage | null>(null);
+
+    // Document library state (null while the panel is closed)
+    const [library, setLibrary] = useState<LibraryDocument[] | null>(null);
+    const [libraryUploadCount, setLibraryUploadCount] = useState(0);
+    const [openCitation, setOpenCitation] = useState<{ messageId: number; index: number } | null>(null);
+
+    // Share links state (null while the panel is closed)
+    const [shareLinks, setShareLinks] = useState<ShareLink[] | null>(null);
+    const [shareExpiryDays, setShareExpiryDays] = useState<number | null>(null);
+
+    // Prompt templates and slash commands
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+    const [templateError, setTemplateError] = useState<string | null>(null);
+
+    // Admin console (admins only)
+    const [showAdmin, setShowAdmin] = useState(false);
+
     const messagesEndRef = useRef<HTMLDivElement>(null);
-    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const messagesPaneRef = useRef<HTMLElement>(null);
+    // Distance from the bottom of the pane to restore after older messages are prepended
+    const scrollAnchorRef = useRef<number | null>(null);
+    const skipAutoScrollRef = useRef(false);
+    const lastScrollTopRef = useRef(0);
+    const loadingOlderRef = useRef(false);
+    const loadingSessionsRef = useRef(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const libraryInputRef = useRef<HTMLInputElement>(null);
+    // Latest realtime handlers, so the long-lived socket never calls a stale closure
+    const realtimeRef = useRef<{ onEvent: (event: RealtimeEvent) => void; resync: () => void }>();
+    const messagesRefetchRef = useRef<ReturnType<typeof setTimeout>>();
+    // Cancels the reply that is streaming in, if any (the Stop button)
+    const replyAbortRef = useRef<AbortController | null>(null);
 
-    // Check for saved user on mount
+    // Restore the user from a saved token on mount
     useEffect(() => {
-        const savedUser = localStorage.getItem('chatUser');
-        if (savedUser) {
-            setUser(JSON.parse(savedUser));
-        }
+        if (!localStorage.getItem('chatToken')) return;
+        apiFetch('/api/auth/me')
+            .then(response => response.json())
+            .then(data => {
+                if (data.success) setUser(data.user);
+                else localStorage.removeItem('chatToken');
+            })
+            .catch(err => console.error('Error restoring login:', err));
     }, []);
 
-    // Fetch sessions when user logs in
+    // Fetch sessions and model options when user logs in
     useEffect(() => {
         if (user) {
-            fetchSessions();
+            fetchOrganization();
+            fetchTemplates();
+            fetchModelOptions();
+            fetchUsage();
         }
     }, [user]);
 
+    // Reload the sidebar when its filter changes (also the first load after logging in)
+    useEffect(() => {
+        if (user) fetchSessions(true);
+    }, [user, tagFilter, showArchived]);
+
+    // Keeps this tab in sync with the user's other tabs; reconnects with backoff and resyncs after a drop
+    useEffect(() => {
+        const token = localStorage.getItem('chatToken');
+        if (!user || !token) return;
+        let socket: WebSocket | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+        let retryDelay = REALTIME_RETRY_MS;
+        let dropped = false;
+        let closed = false;
+
+        const connect = () => {
+            socket = new WebSocket(`${eventsUrl()}?token=${encodeURIComponent(token)}`);
+            socket.onopen = () => {
+                retryDelay = REALTIME_RETRY_MS;
+                if (dropped) realtimeRef.current?.resync();
+            };
+            socket.onmessage = (message) => {
+                try {
+                    realtimeRef.current?.onEvent(JSON.parse(message.data));
+                } catch (err) {
+                    console.error('Bad realtime event:', err);
+                }
+            };
+            socket.onclose = () => {
+                if (closed) return;
+                dropped = true;
+                retryTimer = setTimeout(connect, retryDelay);
+                retryDelay = Math.min(retryDelay * 2, REALTIME_MAX_RETRY_MS);
+            };
+        };
+        connect();
+
+        return () => {
+            closed = true;
+            clearTimeout(retryTimer);
+            clearTimeout(messagesRefetchRef.current);
+            socket?.close();
+        };
+    }, [user]);
+
     // Fetch messages when session changes
     useEffect(() => {
+        setMessagesCursor(null);
+        scrollAnchorRef.current = null;
         if (activeSession) {
             fetchMessages();
         } else {
             setMessages([]);
         }
-    }, [activeSession]);
+        setSettingsDraft(null);
+        setEditingId(null);
+        setPendingAttachments([]);
+    }, [activeSession?.id]);
 
     // Scroll to bottom
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     };
 
+    // Keeps the view still when older messages are prepended, instead of scrolling to the bottom
+    useLayoutEffect(() => {
+        const pane = messagesPaneRef.current;
+        if (scrollAnchorRef.current === null || !pane) return;
+        pane.scrollTop = pane.scrollHeight - scrollAnchorRef.current;
+        scrollAnchorRef.current = null;
+        skipAutoScrollRef.current = true;
+    }, [messages]);
+
     useEffect(() => {
+        if (skipAutoScrollRef.current) {
+            skipAutoScrollRef.current = false;
+            return;
+        }
         scrollToBottom();
-    }, [messages, isTyping]);
+    }, [messages, isTyping, streamingText]);
 
-    // Auto-resize textarea
+    // Scroll to a search hit once its branch is loaded (overrides the scroll to bottom above)
+    // Older pages are loaded until the hit is among the messages
     useEffect(() => {
-        if (textareaRef.current) {
-            textareaRef.current.style.height = 'auto';
-            textareaRef.current.style.height = `${Math.min(textareaRef.current.scrollHeight, 150)}px`;
+        if (!jumpToMessageId) return;
+        const element = document.getElementById(`message-${jumpToMessageId}`);
+        if (!element) {
+            if (messagesCursor !== null) loadOlderMessages();
+            return;
         }
-    }, [inputValue]);
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const timer = setTimeout(() => setJumpToMessageId(null), 2000);
+        return () => clearTimeout(timer);
+    }, [messages, messagesCursor, jumpToMessageId]);
+
+    // Calls the API with the saved token; a rejected token logs the user out
+    const apiFetch = async (path: string, init: RequestInit = {}) => {
+        const token = localStorage.getItem('chatToken');
+        const response = await fetch(`${API_URL}${path}`, {
+            ...init,
+            headers: { ...init.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) }
+        });
+        if (response.status === 401 && token) handleLogout();
+        return response;
+    };
+
+    // Calls a JSON endpoint; throws with the server's error message on failure
+    const apiJson = async (path: string, init: RequestInit = {}) => {
+        const response = await apiFetch(path, init);
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || data.success === false) {
+            throw new Error(data.error || `Request failed (${response.status})`);
+        }
+        return data;
+    };
+
+    const showError = (err: unknown, fallback: string) => {
+        setError(err instanceof Error ? err.message : fallback);
+    };
 
     // Auth functions
     const handleLogin = async (e: FormEvent) => {
         e.preventDefault();
-        if (!loginUsername.trim() || loginLoading) return;
+        if (!loginUsername.trim() || !loginPassword || loginLoading) return;
 
         setLoginLoading(true);
         setLoginError('');
 
         try {
-            const response = await fetch(`${API_URL}/api/auth/login`, {
+            const response = await fetch(`${API_URL}/api/auth/${authMode}`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ username: loginUsername.trim() })
+                body: JSON.stringify({ username: loginUsername.trim(), password: loginPassword })
             });
             const data = await response.json();
 
             if (data.success) {
                 setUser(data.user);
-                localStorage.setItem('chatUser', JSON.stringify(data.user));
+                localStorage.setItem('chatToken', data.token);
                 setLoginUsername('');
+                setLoginPassword('');
             } else {
-                setLoginError(data.error || 'Login failed');
+                setLoginError(data.error || (authMode === 'login' ? 'Login failed' : 'Registration failed'));
             }
         } catch {
             setLoginError('Failed to connect to server');
@@ -119,157 +384,766 @@ function App() {
         setUser(null);
         setActiveSession(null);
         setSessions([]);
+        setSessionsCursor(null);
         setMessages([]);
-        localStorage.removeItem('chatUser');
+        setUsage(null);
+        setLibrary(null);
+        setShareLinks(null);
+        setFolders([]);
+        setTags([]);
+        setTagFilter(null);
+        setShowArchived(false);
+        setTemplates([]);
+        setShowTemplates(false);
+        setTemplateDraft(null);
+        setShowAdmin(false);
+        localStorage.removeItem('chatToken');
     };
 
     // Session functions
-    const fetchSessions = async () => {
+    // Query string for the session list under the sidebar's filter
+    const sessionsQuery = (extra: Record<string, string> = {}) => {
+        const params = new URLSearchParams(extra);
+        if (tagFilter !== null) params.set('tag', String(tagFilter));
+        if (showArchived) params.set('archived', 'true');
+        const query = params.toString();
+        return query ? `?${query}` : '';
+    };
+
+    // Whether a chat belongs in the sidebar under its current filter
+    const matchesFilter = (session: Session) =>
+        session.archived === showArchived && (tagFilter === null || session.tag_ids.includes(tagFilter));
+
+    // Puts a changed chat in place, or takes it out of the sidebar when it no longer matches the filter
+    const applySessionUpdate = (session: Session) => {
+        setSessions(prev => matchesFilter(session)
+            ? prev.map(s => s.id === session.id ? session : s)
+            : prev.filter(s => s.id !== session.id));
+        setActiveSession(prev => prev?.id === session.id ? session : prev);
+    };
+
+    // Loads the newest page of chats; older pages already in the sidebar are kept
+    // With reset, pages loaded under a previous filter are dropped
+    const fetchSessions = async (reset = false) => {
         if (!user) return;
         try {
-            const response = await fetch(`${API_URL}/api/sessions/${user.id}`);
-            const data = await response.json();
-            if (data.success) {
+            const data = await apiJson(`/api/sessions${sessionsQuery()}`);
+            const last = data.sessions[data.sessions.length - 1];
+            const index = data.next_cursor === null || reset ? -1 : sessions.findIndex(s => s.id === last.id);
+            if (index === -1) {
                 setSessions(data.sessions);
-                if (data.sessions.length > 0 && !activeSession) {
-                    setActiveSession(data.sessions[0]);
-                }
+                setSessionsCursor(data.next_cursor);
+            } else {
+                setSessions([...data.sessions, ...sessions.slice(index + 1)]);
             }
+            if (data.sessions.length > 0 && !activeSession) {
+                setActiveSession(data.sessions[0]);
+            }
+        } catch (err) {
+            showError(err, 'Failed to load chats');
+        }
+    };
+
+    // Appends the next page of older chats to the sidebar
+    const loadMoreSessions = async () => {
+        if (sessionsCursor === null || loadingSessionsRef.current) return;
+        loadingSessionsRef.current = true;
+        try {
+            const data = await apiJson(`/api/sessions${sessionsQuery({ before: sessionsCursor })}`);
+            setSessions(prev => [...prev, ...data.sessions.filter((s: Session) => !prev.some(p => p.id === s.id))]);
+            setSessionsCursor(data.next_cursor);
         } catch (err) {
-            console.error('Error fetching sessions:', err);
+            showError(err, 'Failed to load chats');
+        } finally {
+            loadingSessionsRef.current = false;
         }
     };
 
     const createNewSession = async () => {
         if (!user) return;
         try {
-            const response = await fetch(`${API_URL}/api/sessions`, {
+            const data = await apiJson('/api/sessions', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ userId: user.id, title: 'New Chat' })
+                body: JSON.stringify({ title: 'New Chat' })
             });
-            const data = await response.json();
-            if (data.success) {
-                setSessions(prev => [data.session, ...prev]);
-                setActiveSession(data.session);
-                setMessages([]);
-            }
+            setSessions(prev => [data.session, ...prev]);
+            setActiveSession(data.session);
+            setMessages([]);
+        } catch (err) {
+            showError(err, 'Failed to create chat');
+        }
+    };
+
+    // Renames, files, pins, archives or tags a chat (see PATCH /api/sessions/:sessionId)
+    const updateSession = async (sessionId: number, patch: Record<string, unknown>, failure: string) => {
+        try {
+            const data = await apiJson(`/api/sessions/${sessionId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(patch)
+            });
+            applySessionUpdate(data.session);
+        } catch (err) {
+            showError(err, failure);
+        }
+    };
+
+    const toggleSessionTag = (session: Session, tagId: number) => {
+        const tagIds = session.tag_ids.includes(tagId) ? session.tag_ids.filter(id => id !== tagId) : [...session.tag_ids, tagId];
+        updateSession(session.id, { tagIds }, 'Failed to update tags');
+    };
+
+    // Organization functions
+    const fetchOrganization = async () => {
+        try {
+            const [folderData, tagData] = await Promise.all([apiJson('/api/folders'), apiJson('/api/tags')]);
+            setFolders(folderData.folders);
+            setTags(tagData.tags);
+        } catch (err) {
+            showError(err, 'Failed to load folders and tags');
+        }
+    };
+
+    // Creates, renames or deletes a folder or tag; kind is the route ('folders' / 'tags')
+    const saveLabel = async (kind: 'folders' | 'tags', label: Label | null, name: string) => {
+        const data = await apiJson(label ? `/api/${kind}/${label.id}` : `/api/${kind}`, {
+            method: label ? 'PATCH' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name })
+        });
+        const saved: Label = kind === 'folders' ? data.folder : data.tag;
+        const setLabels = kind === 'folders' ? setFolders : setTags;
+        setLabels(prev => [...prev.filter(l => l.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+        return saved;
+    };
+
+    const promptLabel = async (kind: 'folders' | 'tags', label: Label | null = null) => {
+        const name = prompt(label ? `Rename "${label.name}" to` : kind === 'folders' ? 'Folder name' : 'Tag name', label?.name ?? '')?.trim();
+        if (!name || name === label?.name) return null;
+        try {
+            return await saveLabel(kind, label, name);
         } catch (err) {
-            console.error('Error creating session:', err);
+            showError(err, `Failed to save ${name}`);
+            return null;
         }
     };
 
-    const deleteSession = async (sessionId: number, e: React.MouseEvent) => {
-        e.stopPropagation();
+    // The folder's chats move to the top level; they aren't deleted
+    const deleteFolder = async (folder: Label) => {
+        if (!confirm(`Delete the folder "${folder.name}"? Its chats are kept.`)) return;
         try {
-            const response = await fetch(`${API_URL}/api/sessions/${sessionId}`, {
+            await apiJson(`/api/folders/${folder.id}`, { method: 'DELETE' });
+            setFolders(prev => prev.filter(f => f.id !== folder.id));
+            setSessions(prev => prev.map(s => s.folder_id === folder.id ? { ...s, folder_id: null } : s));
+        } catch (err) {
+            showError(err, 'Failed to delete folder');
+        }
+    };
+
+    const deleteTag = async (tag: Label) => {
+        if (!confirm(`Delete the tag "${tag.name}"? It is removed from every chat.`)) return;
+        try {
+            await apiJson(`/api/tags/${tag.id}`, { method: 'DELETE' });
+            setTags(prev => prev.filter(t => t.id !== tag.id));
+            setSessions(prev => prev.map(s => ({ ...s, tag_ids: s.tag_ids.filter(id => id !== tag.id) })));
+            setActiveSession(prev => prev && { ...prev, tag_ids: prev.tag_ids.filter(id => id !== tag.id) });
+            if (tagFilter === tag.id) setTagFilter(null);
+        } catch (err) {
+            showError(err, 'Failed to delete tag');
+        }
+    };
+
+    const deleteSession = async (sessionId: number) => {
+        try {
+            await apiJson(`/api/sessions/${sessionId}`, {
                 method: 'DELETE'
             });
-            const data = await response.json();
-            if (data.success) {
-                setSessions(prev => prev.filter(s => s.id !== sessionId));
-                if (activeSession?.id === sessionId) {
-                    setActiveSession(sessions.find(s => s.id !== sessionId) || null);
-                }
+            setSessions(prev => prev.filter(s => s.id !== sessionId));
+            if (activeSession?.id === sessionId) {
+                setActiveSession(sessions.find(s => s.id !== sessionId) || null);
+            }
+        } catch (err) {
+            showError(err, 'Failed to delete chat');
+        }
+    };
+
+    // Export / import functions
+    const exportSession = async (format: 'md' | 'json') => {
+        if (!activeSession) return;
+        try {
+            const response = await apiFetch(`/api/sessions/${activeSession.id}/export?format=${format}`);
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || 'Failed to export chat');
+            }
+            const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `chat.${format}`;
+            saveBlob(await response.blob(), filename);
+        } catch (err) {
+            showError(err, 'Failed to export chat');
+        }
+    };
+
+    const importSession = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const body = await file.text();
+            try {
+                JSON.parse(body);
+            } catch {
+                throw new Error('Import file must be a JSON chat export');
+            }
+            const data = await apiJson('/api/sessions/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body
+            });
+            setSessions(prev => [data.session, ...prev]);
+            setActiveSession(data.session);
+        } catch (err) {
+            showError(err, 'Failed to import chat');
+        }
+    };
+
+    // Opens the session of a hit and, for message hits, switches to the branch containing it
+    // The chat may be outside the loaded sidebar page, archived or hidden by the tag filter, so load it when needed
+    const openSearchResult = async (result: SearchResult) => {
+        try {
+            const session: Session = sessions.find(s => s.id === result.session_id)
+                ?? (await apiJson(`/api/sessions/${result.session_id}`)).session;
+            let branch: MessagePage | null = null;
+            if (result.message_id !== null) {
+                branch = await apiJson(`/api/sessions/${session.id}/messages/${result.message_id}/select`, {
+                    method: 'POST'
+                });
+            }
+            if (activeSession?.id === session.id) {
+                if (branch) applyLatestPage(branch);
+            } else {
+                setActiveSession(session);
+            }
+            setJumpToMessageId(result.message_id);
+        } catch (err) {
+            showError(err, 'Failed to open search result');
+        }
+    };
+
+    // Settings functions
+    const fetchModelOptions = async () => {
+        try {
+            setModelOptions(await apiJson('/api/models'));
+        } catch (err) {
+            showError(err, 'Failed to load models');
+        }
+    };
+
+    const fetchUsage = async () => {
+        try {
+            const data = await apiJson('/api/usage');
+            setUsage(data.usage);
+        } catch (err) {
+            console.error('Error loading usage:', err);
+        }
+    };
+
+    const toggleSettings = () => {
+        if (settingsDraft || !activeSession || !modelOptions) {
+            setSettingsDraft(null);
+            return;
+        }
+        const { defaults } = modelOptions;
+        setSettingsError(null);
+        setSettingsDraft({
+            model: activeSession.model && modelOptions.models.includes(activeSession.model) ? activeSession.model : defaults.model,
+            systemPrompt: activeSession.system_prompt ?? defaults.system_prompt,
+            temperature: activeSession.temperature ?? defaults.temperature,
+            maxTokens: activeSession.max_tokens ?? defaults.max_tokens,
+            retrieval: activeSession.retrieval_enabled
+        });
+    };
+
+    // Sending null for every field resets the session to the defaults
+    // Fields left at the default are sent as null too, so the chat follows the server's defaults when they change
+    const saveSettings = async (reset = false) => {
+        if (!activeSession || !settingsDraft || !modelOptions) return;
+        setSettingsError(null);
+        const { defaults } = modelOptions;
+        const orDefault = (value: string | number, fallback: string | number) => (reset || value === fallback ? null : value);
+        try {
+            const data = await apiJson(`/api/sessions/${activeSession.id}/settings`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: orDefault(settingsDraft.model, defaults.model),
+                    systemPrompt: orDefault(settingsDraft.systemPrompt.trim(), defaults.system_prompt.trim()),
+                    temperature: orDefault(settingsDraft.temperature, defaults.temperature),
+                    maxTokens: orDefault(settingsDraft.maxTokens, defaults.max_tokens),
+                    ...(reset ? {} : { retrieval: settingsDraft.retrieval }),
+                })
+            });
+            setActiveSession(data.session);
+            setSessions(prev => prev.map(s => s.id === data.session.id ? data.session : s));
+            setSettingsDraft(null);
+        } catch (err) {
+            setSettingsError(err instanceof Error ? err.message : 'Failed to save settings');
+        }
+    };
+
+    // Library functions
+    const toggleLibrary = async () => {
+        if (library) {
+            setLibrary(null);
+            return;
+        }
+        try {
+            const data = await apiJson('/api/documents');
+            setLibrary(data.documents);
+        } catch (err) {
+            showError(err, 'Failed to load documents');
+        }
+    };
+
+    // Documents are chunked and embedded on upload, which can take a moment for large files
+    const uploadDocuments = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = [...(e.target.files ?? [])];
+        e.target.value = '';
+        setError(null);
+        for (const file of files) {
+            setLibraryUploadCount(count => count + 1);
+            try {
+                const data = await apiJson('/api/documents', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/octet-stream', 'X-Filename': encodeURIComponent(file.name) },
+                    body: file
+                });
+                setLibrary(prev => prev && [data.document, ...prev]);
+            } catch (err) {
+                showError(err, `Failed to add ${file.name}`);
+            } finally {
+                setLibraryUploadCount(count => count - 1);
             }
+        }
+    };
+
+    const deleteDocument = async (doc: LibraryDocument) => {
+        if (!confirm(`Remove ${doc.filename} from your library?`)) return;
+        try {
+            await apiJson(`/api/documents/${doc.id}`, { method: 'DELETE' });
+            setLibrary(prev => prev && prev.filter(d => d.id !== doc.id));
+        } catch (err) {
+            showError(err, 'Failed to remove document');
+        }
+    };
+
+    // Share link functions
+    const shareUrl = (link: ShareLink) => `${window.location.origin}/share/${link.token}`;
+
+    const toggleShareLinks = async () => {
+        if (shareLinks) {
+            setShareLinks(null);
+            return;
+        }
+        try {
+            const data = await apiJson('/api/shares');
+            setShareLinks(data.shares);
+        } catch (err) {
+            showError(err, 'Failed to load share links');
+        }
+    };
+
+    // The link shows the selected branch as it is now; later messages aren't added to it
+    const createShareLink = async () => {
+        if (!activeSession) return;
+        try {
+            const data = await apiJson(`/api/sessions/${activeSession.id}/shares`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ expiresInDays: shareExpiryDays })
+            });
+            setShareLinks(prev => prev && [data.share, ...prev]);
+            navigator.clipboard.writeText(shareUrl(data.share)).catch(() => {});
+        } catch (err) {
+            showError(err, 'Failed to create share link');
+        }
+    };
+
+    const revokeShareLink = async (link: ShareLink) => {
+        if (!confirm(`Revoke the link to "${link.title}"? Anyone using it will lose access.`)) return;
+        try {
+            await apiJson(`/api/shares/${link.id}`, { method: 'DELETE' });
+            setShareLinks(prev => prev && prev.filter(l => l.id !== link.id));
+        } catch (err) {
+            showError(err, 'Failed to revoke share link');
+        }
+    };
+
+    // Template functions
+    const fetchTemplates = async () => {
+        try {
+            const data = await apiJson('/api/templates');
+            setTemplates(data.templates);
+        } catch (err) {
+            showError(err, 'Failed to load templates');
+        }
+    };
+
+    const editTemplate = (template: PromptTemplate | null) => {
+        setTemplateError(null);
+        setTemplateDraft(template
+            ? { id: template.id, name: template.name, description: template.description, content: template.content }
+            : { id: null, name: '', description: '', content: '' });
+    };
+
+    const saveTemplate = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!templateDraft) return;
+        const { id, ...fields } = templateDraft;
+        setTemplateError(null);
+        try {
+            const data = await apiJson(id === null ? '/api/templates' : `/api/templates/${id}`, {
+                method: id === null ? 'POST' : 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(fields)
+            });
+            const saved: PromptTemplate = data.template;
+            setTemplates(prev => [...prev.filter(t => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+            setTemplateDraft(null);
         } catch (err) {
-            console.error('Error deleting session:', err);
+            setTemplateError(err instanceof Error ? err.message : 'Failed to save template');
         }
     };
 
+    const deleteTemplate = async (template: PromptTemplate) => {
+        if (!confirm(`Delete the template /${template.name}?`)) return;
+        try {
+            await apiJson(`/api/templates/${template.id}`, { method: 'DELETE' });
+            setTemplates(prev => prev.filter(t => t.id !== template.id));
+            if (templateDraft?.id === template.id) setTemplateDraft(null);
+        } catch (err) {
+            showError(err, 'Failed to delete template');
+        }
+    };
+
+    const toggleCitation = (message: Message, citation: Citation) => {
+        const isOpen = openCitation?.messageId === message.id && openCitation.index === citation.index;
+        setOpenCitation(isOpen ? null : { messageId: message.id, index: citation.index });
+    };
+
     // Message functions
+    // Shows the newest page of the selected branch, keeping older pages that are still on it
+    const applyLatestPage = (page: MessagePage) => {
+        const merged = page.next_cursor === null ? null : mergeLatestPage(messages, page.messages);
+        setMessages(merged ?? page.messages);
+        if (!merged) setMessagesCursor(page.next_cursor);
+    };
+
     const fetchMessages = async () => {
         if (!activeSession) return;
         try {
-            const response = await fetch(`${API_URL}/api/sessions/${activeSession.id}/messages`);
-            const data = await response.json();
-            if (data.success) {
-                setMessages(data.messages);
+            applyLatestPage(await apiJson(`/api/sessions/${activeSession.id}/messages`));
+        } catch (err) {
+            showError(err, 'Failed to load messages');
+        }
+    };
+
+    // Applies a change made in another tab (this tab's own changes arrive too and are no-ops)
+    const handleRealtimeEvent = (event: RealtimeEvent) => {
+        switch (event.type) {
+            case 'session.created':
+                if (!matchesFilter(event.session)) break;
+                setSessions(prev => prev.some(s => s.id === event.session.id) ? prev : [event.session, ...prev]);
+                break;
+            case 'session.updated':
+                applySessionUpdate(event.session);
+                break;
+            case 'organization.changed':
+                fetchOrganization();
+                fetchSessions(true);
+                break;
+            case 'templates.changed':
+                fetchTemplates();
+                break;
+            case 'session.deleted':
+                setSessions(prev => prev.filter(s => s.id !== event.session_id));
+                if (activeSession?.id === event.session_id) {
+                    setActiveSession(sessions.find(s => s.id !== event.session_id) || null);
+                }
+                break;
+            default: {
+                const sessionId = event.type === 'message.created' ? event.message.session_id : event.session_id;
+                // A reply streaming in this tab refetches by itself when it's done
+                if (sessionId !== activeSession?.id || isLoading) break;
+                // Bursts (user message, tool steps, reply) become a single refetch
+                clearTimeout(messagesRefetchRef.current);
+                messagesRefetchRef.current = setTimeout(() => realtimeRef.current?.resync(), REALTIME_REFETCH_DELAY_MS);
             }
+        }
+    };
+
+    realtimeRef.current = {
+        onEvent: handleRealtimeEvent,
+        resync: () => {
+            fetchOrganization();
+            fetchTemplates();
+            fetchSessions();
+            fetchMessages();
+        }
+    };
+
+    // Prepends the next older page of the branch; the layout effect above keeps the scroll position
+    const loadOlderMessages = async () => {
+        const cursor = messagesCursor;
+        if (!activeSession || cursor === null || loadingOlderRef.current) return;
+        loadingOlderRef.current = true;
+        try {
+            const data: MessagePage = await apiJson(`/api/sessions/${activeSession.id}/messages?before=${cursor}`);
+            const pane = messagesPaneRef.current;
+            if (pane) scrollAnchorRef.current = pane.scrollHeight - pane.scrollTop;
+            // Ignore the page if the branch or session changed while it loaded
+            setMessages(prev => prev[0]?.id === cursor ? [...data.messages, ...prev] : prev);
+            setMessagesCursor(current => current === cursor ? data.next_cursor : current);
         } catch (err) {
-            console.error('Error fetching messages:', err);
+            showError(err, 'Failed to load older messages');
+        } finally {
+            loadingOlderRef.current = false;
         }
     };
 
-    const sendMessage = async (e?: FormEvent) => {
-        e?.preventDefault();
+    // Loads older messages when the user scrolls up near the top (not during the scroll to the bottom)
+    const handleMessagesScroll = () => {
+        const pane = messagesPaneRef.current;
+        if (!pane) return;
+        const scrollingUp = pane.scrollTop < lastScrollTopRef.current;
+        lastScrollTopRef.current = pane.scrollTop;
+        if (scrollingUp && pane.scrollTop < 200) loadOlderMessages();
+    };
+
+    // Posts to a streaming reply endpoint and shows the text as it arrives; resolves once the reply is saved
+    // Aborting `signal` closes the request, which makes the server stop generating and save what it has
+    // Failed replies are saved by the server too, so only errors before the stream starts are thrown
+    const streamReply = async (path: string, body: object, signal: AbortSignal): Promise<ReplyOutcome> => {
+        let text = '';
+        try {
+            const response = await apiFetch(path, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal
+            });
 
-        const message = inputValue.trim();
-        if (!message || isLoading || !activeSession) return;
+            // Validation errors come back as plain JSON before the stream starts
+            if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to get AI response');
+            }
 
-        setInputValue('');
+            let outcome: ReplyOutcome | null = null;
+            await readEventStream(response, (stream) => {
+                if (stream.event === 'delta') {
+                    text += stream.data.text;
+                    setStreamingText(text);
+                } else if (stream.event === 'tool') {
+                    setMessages(prev => [...prev, stream.data.message]);
+                } else if (stream.event === 'done') {
+                    outcome = { type: 'done' };
+                } else if (stream.event === 'error') {
+                    outcome = { type: 'failed' };
+                }
+            });
+            if (!outcome) throw new Error('Connection closed before the response finished');
+            return outcome;
+        } catch (err) {
+            if (signal.aborted) return { type: 'stopped', text };
+            throw err;
+        }
+    };
+
+    const stopReply = () => replyAbortRef.current?.abort();
+
+    // Shows `optimistic` while a reply streams in, then reloads the branch (or restores it on failure)
+    const runReply = async (path: string, body: object, optimistic: Message[]) => {
+        const previous = messages;
+        const controller = new AbortController();
+        replyAbortRef.current = controller;
         setIsLoading(true);
         setIsTyping(true);
         setError(null);
+        setMessages(optimistic);
 
+        try {
+            const outcome = await streamReply(path, body, controller.signal);
+            if (outcome.type === 'stopped') {
+                // The server saves the partial reply once it notices; show it until the saved copy is fetched
+                setMessages(prev => [...prev, {
+                    id: Date.now(),
+                    session_id: activeSession!.id,
+                    parent_id: prev[prev.length - 1]?.id ?? null,
+                    role: 'assistant',
+                    content: outcome.text,
+                    status: 'interrupted',
+                    created_at: new Date().toISOString()
+                }]);
+                clearTimeout(messagesRefetchRef.current);
+                messagesRefetchRef.current = setTimeout(() => realtimeRef.current?.resync(), REALTIME_REFETCH_DELAY_MS);
+            } else {
+                await fetchMessages();
+            }
+            fetchSessions();
+            fetchUsage();
+        } catch (err) {
+            showError(err, 'Failed to send message');
+            setMessages(previous);
+        } finally {
+            replyAbortRef.current = null;
+            setIsLoading(false);
+            setIsTyping(false);
+            setStreamingText('');
+        }
+    };
+
+    // Attachment functions
+    // Uploads picked files right away; they are sent with the next message
+    const uploadAttachments = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = [...(e.target.files ?? [])];
+        e.target.value = '';
+        if (!activeSession) return;
+        setError(null);
+        for (const file of files) {
+            setUploadCount(count => count + 1);
+            try {
+                const data = await apiJson(`/api/sessions/${activeSession.id}/attachments`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/octet-stream', 'X-Filename': encodeURIComponent(file.name) },
+                    body: file
+                });
+                setPendingAttachments(prev => [...prev, data.attachment]);
+            } catch (err) {
+                showError(err, `Failed to attach ${file.name}`);
+            } finally {
+                setUploadCount(count => count - 1);
+            }
+        }
+    };
+
+    const removePendingAttachment = async (attachment: Attachment) => {
+        if (!activeSession) return;
+        setPendingAttachments(prev => prev.filter(a => a.id !== attachment.id));
+        try {
+            await apiJson(`/api/sessions/${activeSession.id}/attachments/${attachment.id}`, { method: 'DELETE' });
+        } catch (err) {
+            console.error('Error removing attachment:', err);
+        }
+    };
+
+    const downloadAttachment = async (attachment: Attachment) => {
+        if (!activeSession) return;
+        try {
+            const response = await apiFetch(`/api/sessions/${activeSession.id}/attachments/${attachment.id}`);
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || 'Failed to download file');
+            }
+            saveBlob(await response.blob(), attachment.filename);
+        } catch (err) {
+            showError(err, 'Failed to download file');
+        }
+    };
+
+    // Sends text from the composer (or a filled-in template) with the pending attachments
+    const sendMessage = async (text: string) => {
+        const message = text.trim();
+        if (!message || isLoading || uploadCount > 0 || !activeSession) return;
+
+        const attachments = pendingAttachments;
+        setPendingAttachments([]);
         const tempUserMessage: Message = {
             id: Date.now(),
             session_id: activeSession.id,
+            parent_id: messages[messages.length - 1]?.id ?? null,
             role: 'user',
             content: message,
-            created_at: new Date().toISOString()
+            created_at: new Date().toISOString(),
+            attachments
         };
-        setMessages(prev => [...prev, tempUserMessage]);
+        await runReply(
+            `/api/sessions/${activeSession.id}/chat/stream`,
+            { message, attachmentIds: attachments.map(a => a.id) },
+            [...messages, tempUserMessage]
+        );
+    };
 
-        try {
-            const response = await fetch(`${API_URL}/api/sessions/${activeSession.id}/chat`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ message })
-            });
+    // Regenerates an assistant reply as a new branch
+    const regenerateMessage = async (message: Message) => {
+        if (isLoading || !activeSession) return;
+        const index = messages.findIndex(m => m.id === message.id);
+        await runReply(`/api/sessions/${activeSession.id}/messages/${message.id}/regenerate`, {}, messages.slice(0, index));
+    };
 
-            const data = await response.json();
+    // Saves an edited user message as a new branch and gets a fresh reply
+    const submitEdit = async (message: Message) => {
+        const content = editText.trim();
+        if (!content || isLoading || !activeSession) return;
+        setEditingId(null);
+        const index = messages.findIndex(m => m.id === message.id);
+        const tempUserMessage: Message = { ...message, id: Date.now(), content, sibling_ids: undefined };
+        await runReply(`/api/sessions/${activeSession.id}/messages/${message.id}/edit`, { content }, [...messages.slice(0, index), tempUserMessage]);
+    };
 
-            if (data.success) {
-                setMessages(prev => [...prev, data.response]);
-                fetchSessions();
-            } else {
-                setError(data.error || 'Failed to get AI response');
-                setMessages(prev => prev.filter(m => m.id !== tempUserMessage.id));
-            }
-        } catch {
-            setError('Failed to send message');
-            setMessages(prev => prev.filter(m => m.id !== tempUserMessage.id));
-        } finally {
-            setIsLoading(false);
-            setIsTyping(false);
+    // Switches to the previous (-1) or next (+1) sibling branch of a message
+    const switchBranch = async (message: Message, offset: number) => {
+        if (isLoading || !activeSession || !message.sibling_ids) return;
+        const targetId = message.sibling_ids[message.sibling_ids.indexOf(message.id) + offset];
+        if (targetId === undefined) return;
+        try {
+            applyLatestPage(await apiJson(`/api/sessions/${activeSession.id}/messages/${targetId}/select`, {
+                method: 'POST'
+            }));
+        } catch (err) {
+            showError(err, 'Failed to switch branch');
         }
     };
 
     const clearMessages = async () => {
         if (!activeSession || !confirm('Clear all messages in this chat?')) return;
         try {
-            await fetch(`${API_URL}/api/sessions/${activeSession.id}/messages`, {
+            await apiJson(`/api/sessions/${activeSession.id}/messages`, {
                 method: 'DELETE'
             });
             setMessages([]);
+            setMessagesCursor(null);
         } catch (err) {
-            console.error('Error clearing messages:', err);
+            showError(err, 'Failed to clear messages');
         }
     };
 
-    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
-        if (e.key === 'Enter' && !e.shiftKey) {
-            e.preventDefault();
-            sendMessage();
+    // Switches the chat to another model (the /model command)
+    const switchModel = async (model: string) => {
+        if (!activeSession) return;
+        try {
+            const data = await apiJson(`/api/sessions/${activeSession.id}/settings`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model })
+            });
+            setActiveSession(data.session);
+            setSessions(prev => prev.map(s => s.id === data.session.id ? data.session : s));
+        } catch (err) {
+            showError(err, 'Failed to switch model');
         }
     };
 
-    const formatTime = (dateString: string) => {
-        return new Date(dateString).toLocaleTimeString('en-US', {
-            hour: '2-digit',
-            minute: '2-digit',
-            hour12: true
-        });
-    };
-
     // Login screen
     if (!user) {
         return (
             <div className="min-h-screen bg-zinc-900 flex items-center justify-center p-4">
                 <div className="bg-zinc-800 border border-zinc-700 rounded-2xl p-8 w-full max-w-sm">
                     <h1 className="text-2xl font-semibold text-white text-center mb-2">AI Chat</h1>
-                    <p className="text-zinc-400 text-sm text-center mb-6">Enter your username to start chatting</p>
+                    <p className="text-zinc-400 text-sm text-center mb-6">
+                        {authMode === 'login' ? 'Log in to start chatting' : 'Create an account to start chatting'}
+                    </p>
                     <form onSubmit={handleLogin}>
                         <input
                             type="text"
@@ -280,74 +1154,66 @@ function App() {
                             disabled={loginLoading}
                             autoFocus
                         />
+                        <input
+                            type="password"
+                            className="w-full px-4 py-3 bg-zinc-900 border border-zinc-700 rounded-xl text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500 mb-4"
+                            placeholder="Password (min. 8 characters)"
+                            value={loginPassword}
+                            onChange={(e) => setLoginPassword(e.target.value)}
+                            disabled={loginLoading}
+                            autoComplete={authMode === 'login' ? 'current-password' : 'new-password'}
+                        />
                         <button
                             type="submit"
                             className="w-full py-3 bg-white text-zinc-900 font-medium rounded-xl hover:bg-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-                            disabled={!loginUsername.trim() || loginLoading}
+                            disabled={!loginUsername.trim() || !loginPassword || loginLoading}
                         >
-                            {loginLoading ? 'Logging in...' : 'Continue'}
+                            {loginLoading ? 'Please wait...' : authMode === 'login' ? 'Log In' : 'Create Account'}
                         </button>
                     </form>
                     {loginError && <p className="text-red-400 text-sm text-center mt-3">{loginError}</p>}
+                    <button
+                        onClick={() => { setAuthMode(authMode === 'login' ? 'register' : 'login'); setLoginError(''); }}
+                        className="w-full text-zinc-500 text-xs hover:text-white transition-colors mt-4"
+                    >
+                        {authMode === 'login' ? "Don't have an account? Sign up" : 'Already have an account? Log in'}
+                    </button>
                 </div>
             </div>
         );
     }
 
+    if (showAdmin && user.role === 'admin') {
+        return <AdminConsole api={apiJson} currentUserId={user.id} onClose={() => setShowAdmin(false)} />;
+    }
+
     return (
         <div className="h-screen flex bg-zinc-900">
-            {/* Sidebar */}
-            <aside className="w-64 bg-zinc-800 border-r border-zinc-700 flex flex-col flex-shrink-0">
-                <div className="p-4 border-b border-zinc-700">
-                    <button
-                        onClick={createNewSession}
-                        className="w-full py-3 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2"
-                    >
-                        + New Chat
-                    </button>
-                </div>
-
-                <div className="flex-1 overflow-y-auto p-2">
-                    {sessions.map(session => (
-                        <div
-                            key={session.id}
-                            onClick={() => setActiveSession(session)}
-                            className={`px-3 py-2.5 rounded-lg cursor-pointer flex items-center justify-between mb-1 transition-colors group
-                ${activeSession?.id === session.id
-                                    ? 'bg-zinc-700 text-white'
-                                    : 'text-zinc-400 hover:bg-zinc-700/50 hover:text-white'}`}
-                        >
-                            <span className="truncate text-sm">{session.title}</span>
-                            <button
-                                onClick={(e) => deleteSession(session.id, e)}
-                                className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-all px-1"
-                            >
-                                ×
-                            </button>
-                        </div>
-                    ))}
-                    {sessions.length === 0 && (
-                        <p className="text-zinc-500 text-xs text-center p-4">
-                            No chats yet. Start a new one!
-                        </p>
-                    )}
-                </div>
-
-                <div className="p-4 border-t border-zinc-700 flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                        <div className="w-8 h-8 bg-zinc-700 rounded-lg flex items-center justify-center text-sm text-white">
-                            {user.username[0].toUpperCase()}
-                        </div>
-                        <span className="text-zinc-400 text-sm">{user.username}</span>
-                    </div>
-                    <button
-                        onClick={handleLogout}
-                        className="text-zinc-500 text-xs hover:text-white transition-colors"
-                    >
-                        Logout
-                    </button>
-                </div>
-            </aside>
+            <Sidebar
+                api={apiJson}
+                user={user}
+                sessions={sessions}
+                activeSession={activeSession}
+                folders={folders}
+                tags={tags}
+                tagFilter={tagFilter}
+                showArchived={showArchived}
+                usage={usage}
+                onSelect={setActiveSession}
+                onNewChat={createNewSession}
+                onLoadMore={loadMoreSessions}
+                onUpdate={updateSession}
+                onDelete={deleteSession}
+                onTagFilterChange={setTagFilter}
+                onShowArchivedChange={setShowArchived}
+                onPromptLabel={promptLabel}
+                onDeleteFolder={deleteFolder}
+                onDeleteTag={deleteTag}
+                onOpenSearchResult={openSearchResult}
+                onError={showError}
+                onOpenAdmin={() => setShowAdmin(true)}
+                onLogout={handleLogout}
+            />
 
             {/* Main Content */}
             <div className="flex-1 flex flex-col min-w-0">
@@ -355,19 +1221,417 @@ function App() {
                     <>
                         {/* Header */}
                         <header className="px-6 py-4 bg-zinc-800 border-b border-zinc-700 flex items-center justify-between">
-                            <h1 className="text-white font-medium truncate max-w-md">{activeSession.title}</h1>
-                            {messages.length > 0 && (
+                            <div className="min-w-0">
+                                <h1 className="text-white font-medium truncate max-w-md">{activeSession.title}</h1>
+                                {modelOptions && (
+                                    <p className="text-zinc-500 text-xs truncate">
+                                        {/* The server answers with the default when the chat's model was dropped from the provider */}
+                                        {activeSession.model && !modelOptions.models.includes(activeSession.model)
+                                            ? `${activeSession.model} is unavailable, using ${modelOptions.defaults.model}`
+                                            : activeSession.model ?? modelOptions.defaults.model}
+                                    </p>
+                                )}
+                                <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                                    {tags.filter(tag => activeSession.tag_ids.includes(tag.id)).map(tag => (
+                                        <span key={tag.id} className="inline-flex items-center gap-1 pl-2 pr-1.5 py-0.5 rounded-full border border-zinc-600 text-zinc-300">
+                                            #{tag.name}
+                                            <button
+                                                onClick={() => toggleSessionTag(activeSession, tag.id)}
+                                                className="text-zinc-500 hover:text-red-400 transition-colors"
+                                                title="Remove tag"
+                                            >
+                                                ×
+                                            </button>
+                                        </span>
+                                    ))}
+                                    <select
+                                        value=""
+                                        onChange={async (e) => {
+                                            const tag = e.target.value === 'new'
+                                                ? await promptLabel('tags')
+                                                : tags.find(t => t.id === Number(e.target.value));
+                                            if (tag && !activeSession.tag_ids.includes(tag.id)) toggleSessionTag(activeSession, tag.id);
+                                        }}
+                                        className="bg-transparent text-zinc-500 hover:text-white focus:outline-none cursor-pointer"
+                                    >
+                                        <option value="">+ Tag</option>
+                                        {tags.filter(tag => !activeSession.tag_ids.includes(tag.id)).map(tag => (
+                                            <option key={tag.id} value={tag.id}>#{tag.name}</option>
+                                        ))}
+                                        <option value="new">New tag…</option>
+                                    </select>
+                                    <select
+                                        value={activeSession.folder_id ?? ''}
+                                        onChange={(e) => updateSession(activeSession.id, { folderId: e.target.value ? Number(e.target.value) : null }, 'Failed to move chat')}
+                                        className="bg-transparent text-zinc-500 hover:text-white focus:outline-none cursor-pointer"
+                                        title="Folder"
+                                    >
+                                        <option value="">No folder</option>
+                                        {folders.map(folder => (
+                                            <option key={folder.id} value={folder.id}>{folder.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="flex gap-2">
                                 <button
-                                    onClick={clearMessages}
+                                    onClick={() => exportSession('md')}
                                     className="text-zinc-500 text-sm hover:text-white border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors"
+                                    title="Download the current branch as Markdown"
                                 >
-                                    Clear
+                                    Export MD
                                 </button>
-                            )}
+                                <button
+                                    onClick={() => exportSession('json')}
+                                    className="text-zinc-500 text-sm hover:text-white border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors"
+                                    title="Download the whole chat as JSON (can be imported again)"
+                                >
+                                    Export JSON
+                                </button>
+                                <button
+                                    onClick={() => importInputRef.current?.click()}
+                                    className="text-zinc-500 text-sm hover:text-white border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors"
+                                    title="Create a new chat from a JSON export"
+                                >
+                                    Import
+                                </button>
+                                <input
+                                    ref={importInputRef}
+                                    type="file"
+                                    accept="application/json,.json"
+                                    className="hidden"
+                                    onChange={importSession}
+                                />
+                                <button
+                                    onClick={toggleLibrary}
+                                    className={`text-sm border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors
+                                        ${library ? 'text-white bg-zinc-700' : 'text-zinc-500 hover:text-white'}`}
+                                    title="Documents your chats can draw on"
+                                >
+                                    Library
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        setShowTemplates(!showTemplates);
+                                        setTemplateDraft(null);
+                                    }}
+                                    className={`text-sm border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors
+                                        ${showTemplates ? 'text-white bg-zinc-700' : 'text-zinc-500 hover:text-white'}`}
+                                    title="Reusable prompts you can run with /name"
+                                >
+                                    Templates
+                                </button>
+                                <button
+                                    onClick={toggleShareLinks}
+                                    className={`text-sm border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors
+                                        ${shareLinks ? 'text-white bg-zinc-700' : 'text-zinc-500 hover:text-white'}`}
+                                    title="Read-only links to your chats"
+                                >
+                                    Share
+                                </button>
+                                <button
+                                    onClick={toggleSettings}
+                                    disabled={!modelOptions}
+                                    className={`text-sm border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-40
+                                        ${settingsDraft ? 'text-white bg-zinc-700' : 'text-zinc-500 hover:text-white'}`}
+                                >
+                                    Settings
+                                </button>
+                                {messages.length > 0 && (
+                                    <button
+                                        onClick={clearMessages}
+                                        className="text-zinc-500 text-sm hover:text-white border border-zinc-700 px-3 py-1.5 rounded-lg transition-colors"
+                                    >
+                                        Clear
+                                    </button>
+                                )}
+                            </div>
                         </header>
 
+                        {/* Settings panel */}
+                        {settingsDraft && modelOptions && (
+                            <section className="px-6 py-4 bg-zinc-800 border-b border-zinc-700 flex flex-col gap-3 text-sm">
+                                <label className="flex flex-col gap-1 text-zinc-400">
+                                    Model
+                                    <select
+                                        className="px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-500"
+                                        value={settingsDraft.model}
+                                        onChange={(e) => setSettingsDraft({ ...settingsDraft, model: e.target.value })}
+                                    >
+                                        {modelOptions.models.map(model => (
+                                            <option key={model} value={model}>{model}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="flex flex-col gap-1 text-zinc-400">
+                                    System prompt
+                                    <textarea
+                                        className="px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white resize-y focus:outline-none focus:border-zinc-500"
+                                        rows={3}
+                                        value={settingsDraft.systemPrompt}
+                                        onChange={(e) => setSettingsDraft({ ...settingsDraft, systemPrompt: e.target.value })}
+                                    />
+                                </label>
+                                <div className="flex gap-6">
+                                    <label className="flex-1 flex flex-col gap-1 text-zinc-400">
+                                        Temperature: {settingsDraft.temperature.toFixed(1)}
+                                        <input
+                                            type="range"
+                                            min={modelOptions.limits.minTemperature}
+                                            max={modelOptions.limits.maxTemperature}
+                                            step={0.1}
+                                            value={settingsDraft.temperature}
+                                            onChange={(e) => setSettingsDraft({ ...settingsDraft, temperature: parseFloat(e.target.value) })}
+                                        />
+                                    </label>
+                                    <label className="flex flex-col gap-1 text-zinc-400">
+                                        Max tokens
+                                        <input
+                                            type="number"
+                                            className="w-28 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-500"
+                                            min={1}
+                                            max={modelOptions.limits.maxTokens}
+                                            value={settingsDraft.maxTokens}
+                                            onChange={(e) => setSettingsDraft({ ...settingsDraft, maxTokens: parseInt(e.target.value) || 0 })}
+                                        />
+                                    </label>
+                                </div>
+                                <label className="flex items-center gap-2 text-zinc-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={settingsDraft.retrieval}
+                                        onChange={(e) => setSettingsDraft({ ...settingsDraft, retrieval: e.target.checked })}
+                                    />
+                                    Answer from my document library (replies cite their sources)
+                                </label>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => saveSettings()}
+                                        className="py-1.5 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors"
+                                    >
+                                        Save
+                                    </button>
+                                    <button
+                                        onClick={() => saveSettings(true)}
+                                        className="py-1.5 px-4 text-zinc-500 hover:text-white border border-zinc-700 rounded-lg transition-colors"
+                                    >
+                                        Reset to defaults
+                                    </button>
+                                    {settingsError && <p className="text-red-400 text-xs">{settingsError}</p>}
+                                </div>
+                            </section>
+                        )}
+
+                        {/* Library panel */}
+                        {library && (
+                            <section className="px-6 py-4 bg-zinc-800 border-b border-zinc-700 flex flex-col gap-3 text-sm">
+                                <div className="flex items-center justify-between gap-4">
+                                    <p className="text-zinc-400">
+                                        Chats with retrieval turned on in Settings search these documents for every message.
+                                    </p>
+                                    <button
+                                        onClick={() => libraryInputRef.current?.click()}
+                                        className="py-1.5 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors flex-shrink-0"
+                                    >
+                                        Add documents
+                                    </button>
+                                    <input
+                                        ref={libraryInputRef}
+                                        type="file"
+                                        multiple
+                                        accept=".txt,.md,.markdown,.csv,.pdf,.json,.log,.html,text/*"
+                                        className="hidden"
+                                        onChange={uploadDocuments}
+                                    />
+                                </div>
+                                {libraryUploadCount > 0 && <p className="text-xs text-zinc-500">Processing {libraryUploadCount} file(s)…</p>}
+                                {library.length === 0 && libraryUploadCount === 0 ? (
+                                    <p className="text-zinc-500 text-xs">Your library is empty.</p>
+                                ) : (
+                                    <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+                                        {library.map(doc => (
+                                            <li key={doc.id} className="flex items-center gap-3 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg">
+                                                <span className="flex-1 truncate text-white" title={doc.filename}>{doc.filename}</span>
+                                                <span className="text-xs text-zinc-500 flex-shrink-0">
+                                                    {formatSize(doc.size)} · {doc.chunk_count} {doc.chunk_count === 1 ? 'chunk' : 'chunks'}
+                                                </span>
+                                                <button
+                                                    onClick={() => deleteDocument(doc)}
+                                                    className="text-zinc-500 hover:text-red-400 transition-colors"
+                                                    title="Remove from library"
+                                                >
+                                                    ×
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </section>
+                        )}
+
+                        {/* Templates panel */}
+                        {showTemplates && (
+                            <section className="px-6 py-4 bg-zinc-800 border-b border-zinc-700 flex flex-col gap-3 text-sm">
+                                <div className="flex items-center justify-between gap-4">
+                                    <p className="text-zinc-400">
+                                        Type /name in the message box to run a template. Parts written as {'{{variable}}'} are asked for each time.
+                                    </p>
+                                    <button
+                                        onClick={() => editTemplate(null)}
+                                        className="py-1.5 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors flex-shrink-0"
+                                    >
+                                        New template
+                                    </button>
+                                </div>
+                                {templateDraft && (
+                                    <form onSubmit={saveTemplate} className="flex flex-col gap-2">
+                                        <div className="flex gap-2">
+                                            <input
+                                                value={templateDraft.name}
+                                                onChange={(e) => setTemplateDraft({ ...templateDraft, name: e.target.value })}
+                                                placeholder="name (e.g. review)"
+                                                maxLength={50}
+                                                autoFocus
+                                                className="w-48 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white font-mono focus:outline-none focus:border-zinc-500"
+                                            />
+                                            <input
+                                                value={templateDraft.description}
+                                                onChange={(e) => setTemplateDraft({ ...templateDraft, description: e.target.value })}
+                                                placeholder="Description (optional)"
+                                                maxLength={200}
+                                                className="flex-1 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white focus:outline-none focus:border-zinc-500"
+                                            />
+                                        </div>
+                                        <textarea
+                                            value={templateDraft.content}
+                                            onChange={(e) => setTemplateDraft({ ...templateDraft, content: e.target.value })}
+                                            placeholder={'Review this diff and point out bugs:\n\n{{diff}}'}
+                                            rows={5}
+                                            className="px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white font-mono text-xs resize-y focus:outline-none focus:border-zinc-500"
+                                        />
+                                        <div className="flex items-center gap-2">
+                                            <button
+                                                type="submit"
+                                                className="py-1.5 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors"
+                                            >
+                                                Save
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => setTemplateDraft(null)}
+                                                className="py-1.5 px-4 text-zinc-400 hover:text-white transition-colors"
+                                            >
+                                                Cancel
+                                            </button>
+                                            {templateError && <p className="text-red-400 text-xs">{templateError}</p>}
+                                        </div>
+                                    </form>
+                                )}
+                                {templates.length === 0 ? (
+                                    <p className="text-zinc-500 text-xs">You don't have any templates yet.</p>
+                                ) : (
+                                    <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+                                        {templates.map(template => (
+                                            <li key={template.id} className="flex items-center gap-3 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg">
+                                                <span className="font-mono text-white flex-shrink-0">/{template.name}</span>
+                                                <span className="flex-1 truncate text-zinc-400" title={template.content}>
+                                                    {template.description || template.content}
+                                                </span>
+                                                {template.variables.length > 0 && (
+                                                    <span className="text-xs text-zinc-500 flex-shrink-0 truncate max-w-[30%]">
+                                                        {template.variables.join(', ')}
+                                                    </span>
+                                                )}
+                                                <button
+                                                    onClick={() => editTemplate(template)}
+                                                    className="text-zinc-500 hover:text-white transition-colors"
+                                                    title="Edit template"
+                                                >
+                                                    ✎
+                                                </button>
+                                                <button
+                                                    onClick={() => deleteTemplate(template)}
+                                                    className="text-zinc-500 hover:text-red-400 transition-colors"
+                                                    title="Delete template"
+                                                >
+                                                    ×
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </section>
+                        )}
+
+                        {/* Share links panel */}
+                        {shareLinks && (
+                            <section className="px-6 py-4 bg-zinc-800 border-b border-zinc-700 flex flex-col gap-3 text-sm">
+                                <div className="flex items-center justify-between gap-4">
+                                    <p className="text-zinc-400">
+                                        Anyone with a link can read a copy of the chat as it is now. New messages aren't added to it.
+                                    </p>
+                                    <div className="flex gap-2 flex-shrink-0">
+                                        <select
+                                            value={shareExpiryDays ?? ''}
+                                            onChange={(e) => setShareExpiryDays(e.target.value ? Number(e.target.value) : null)}
+                                            className="px-2 py-1.5 bg-zinc-900 border border-zinc-600 rounded-lg text-white focus:outline-none focus:border-zinc-500"
+                                        >
+                                            {SHARE_EXPIRY_OPTIONS.map(option => (
+                                                <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={createShareLink}
+                                            disabled={messages.length === 0}
+                                            className="py-1.5 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors disabled:opacity-40"
+                                            title="Creates a link to this chat and copies it"
+                                        >
+                                            Create link
+                                        </button>
+                                    </div>
+                                </div>
+                                {shareLinks.length === 0 ? (
+                                    <p className="text-zinc-500 text-xs">You haven't shared any chats.</p>
+                                ) : (
+                                    <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+                                        {shareLinks.map(link => {
+                                            const expired = link.expires_at !== null && new Date(link.expires_at) <= new Date();
+                                            return (
+                                                <li key={link.id} className="flex items-center gap-3 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg">
+                                                    <a
+                                                        href={shareUrl(link)}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className={`flex-1 truncate hover:underline ${link.session_id === activeSession.id ? 'text-white' : 'text-zinc-300'}`}
+                                                        title={shareUrl(link)}
+                                                    >
+                                                        {link.title}
+                                                    </a>
+                                                    <span className={`text-xs flex-shrink-0 ${expired ? 'text-red-400' : 'text-zinc-500'}`}>
+                                                        {link.message_count} messages · {expired
+                                                            ? 'expired'
+                                                            : link.expires_at ? `until ${new Date(link.expires_at).toLocaleDateString()}` : 'no expiry'}
+                                                    </span>
+                                                    {!expired && (
+                                                        <CopyButton text={shareUrl(link)} className="text-xs text-zinc-500 hover:text-white" />
+                                                    )}
+                                                    <button
+                                                        onClick={() => revokeShareLink(link)}
+                                                        className="text-zinc-500 hover:text-red-400 transition-colors"
+                                                        title="Revoke link"
+                                                    >
+                                                        ×
+                                                    </button>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </section>
+                        )}
+
                         {/* Messages */}
-                        <main className="flex-1 overflow-y-auto p-6 flex flex-col gap-4">
+                        <main ref={messagesPaneRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto p-6 flex flex-col gap-4">
                             {messages.length === 0 ? (
                                 <div className="flex-1 flex flex-col items-center justify-center text-center">
                                     <h2 className="text-white font-medium mb-2">Start a Conversation</h2>
@@ -375,11 +1639,28 @@ function App() {
                                 </div>
                             ) : (
                                 <>
-                                    {messages.map((message) => (
+                                    {messagesCursor !== null && (
+                                        <button
+                                            onClick={loadOlderMessages}
+                                            className="self-center text-xs text-zinc-500 hover:text-white transition-colors"
+                                        >
+                                            Load earlier messages
+                                        </button>
+                                    )}
+                                    {messages.map((message) => message.role === 'tool' && message.tool_call ? (
+                                        <ToolStep
+                                            key={message.id}
+                                            anchorId={`message-${message.id}`}
+                                            call={message.tool_call}
+                                            branchSwitcher={<BranchSwitcher message={message} disabled={isLoading} onSwitch={switchBranch} />}
+                                        />
+                                    ) : (
                                         <div
                                             key={message.id}
-                                            className={`flex gap-3 max-w-2xl animate-fade-in
-                        ${message.role === 'user' ? 'self-end flex-row-reverse' : 'self-start'}`}
+                                            id={`message-${message.id}`}
+                                            className={`flex gap-3 max-w-2xl animate-fade-in rounded-xl transition-shadow
+                        ${message.role === 'user' ? 'self-end flex-row-reverse' : 'self-start'}
+                        ${jumpToMessageId === message.id ? 'ring-2 ring-yellow-300/50 ring-offset-4 ring-offset-zinc-900' : ''}`}
                                         >
                                             <div className={`w-7 h-7 rounded-md flex items-center justify-center text-xs font-medium flex-shrink-0
                         ${message.role === 'user'
@@ -388,25 +1669,145 @@ function App() {
                                             >
                                                 {message.role === 'user' ? user.username[0].toUpperCase() : 'AI'}
                                             </div>
-                                            <div>
-                                                <div className={`px-4 py-3 rounded-xl text-sm leading-relaxed
+                                            <div className="group">
+                                                {editingId === message.id ? (
+                                                    <div className="flex flex-col gap-2 w-96 max-w-full">
+                                                        <textarea
+                                                            className="px-4 py-3 bg-zinc-900 border border-zinc-600 rounded-xl text-white text-sm resize-y focus:outline-none focus:border-zinc-500"
+                                                            rows={3}
+                                                            value={editText}
+                                                            onChange={(e) => setEditText(e.target.value)}
+                                                            autoFocus
+                                                        />
+                                                        <div className="flex gap-2 justify-end">
+                                                            <button
+                                                                onClick={() => setEditingId(null)}
+                                                                className="text-zinc-500 text-xs hover:text-white px-3 py-1 transition-colors"
+                                                            >
+                                                                Cancel
+                                                            </button>
+                                                            <button
+                                                                onClick={() => submitEdit(message)}
+                                                                disabled={!editText.trim()}
+                                                                className="bg-white text-zinc-900 text-xs font-medium px-3 py-1 rounded-lg hover:bg-zinc-200 transition-colors disabled:opacity-40"
+                                                            >
+                                                                Save & Send
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                ) : (
+                                                    <div className={`px-4 py-3 rounded-xl text-sm leading-relaxed
                           ${message.role === 'user'
-                                                        ? 'bg-white text-zinc-900 rounded-br-sm'
-                                                        : 'bg-zinc-800 border border-zinc-700 text-white rounded-bl-sm'}`}
+                                                            ? 'bg-white text-zinc-900 rounded-br-sm'
+                                                            : `bg-zinc-800 border text-white rounded-bl-sm ${message.status === 'failed' ? 'border-red-500/40' : 'border-zinc-700'}`}`}
+                                                    >
+                                                        {message.role === 'assistant'
+                                                            ? message.content && <Markdown content={message.content} />
+                                                            : <span className="whitespace-pre-wrap break-words">{message.content}</span>}
+                                                        {message.status === 'failed' && (
+                                                            <p className="text-red-300 text-xs">⚠ {message.error || 'The reply failed.'}</p>
+                                                        )}
+                                                        {message.status === 'interrupted' && !message.content && (
+                                                            <p className="text-zinc-500 text-xs italic">Stopped before any text was written.</p>
+                                                        )}
+                                                    </div>
+                                                )}
+                                                {message.attachments && message.attachments.length > 0 && (
+                                                    <div className={`flex flex-wrap gap-1.5 mt-1.5 ${message.role === 'user' ? 'justify-end' : ''}`}>
+                                                        {message.attachments.map(attachment => (
+                                                            <AttachmentChip
+                                                                key={attachment.id}
+                                                                attachment={attachment}
+                                                                onOpen={() => downloadAttachment(attachment)}
+                                                            />
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                {message.citations && message.citations.length > 0 && (
+                                                    <div className="mt-1.5 flex flex-col gap-1.5">
+                                                        <div className="flex flex-wrap gap-1.5">
+                                                            {message.citations.map(citation => (
+                                                                <button
+                                                                    key={citation.index}
+                                                                    onClick={() => toggleCitation(message, citation)}
+                                                                    className={`max-w-[16rem] truncate px-2 py-1 border rounded-lg text-xs transition-colors
+                                                                        ${openCitation?.messageId === message.id && openCitation.index === citation.index
+                                                                            ? 'bg-zinc-700 border-zinc-500 text-white'
+                                                                            : 'bg-zinc-900 border-zinc-700 text-zinc-300 hover:text-white'}`}
+                                                                    title={`${citation.filename}, part ${citation.chunk_index + 1}`}
+                                                                >
+                                                                    [{citation.index}] {citation.filename}
+                                                                </button>
+                                                            ))}
+                                                        </div>
+                                                        {openCitation?.messageId === message.id && message.citations
+                                                            .filter(citation => citation.index === openCitation.index)
+                                                            .map(citation => (
+                                                                <blockquote
+                                                                    key={citation.index}
+                                                                    className="max-h-48 overflow-y-auto px-3 py-2 bg-zinc-900 border-l-2 border-zinc-500 rounded text-xs text-zinc-300 whitespace-pre-wrap"
+                                                                >
+                                                                    {citation.excerpt}
+                                                                </blockquote>
+                                                            ))}
+                                                    </div>
+                                                )}
+                                                <div className={`flex items-center gap-2 text-[10px] text-zinc-600 mt-1 px-1
+                          ${message.role === 'user' ? 'justify-end' : ''}`}
                                                 >
-                                                    {message.content}
+                                                    <BranchSwitcher message={message} disabled={isLoading} onSwitch={switchBranch} />
+                                                    <span>{formatTime(message.created_at)}</span>
+                                                    {message.role === 'assistant' && message.model && (
+                                                        <span title="Model that wrote this reply">{message.model}</span>
+                                                    )}
+                                                    {message.status === 'interrupted' && <span className="italic">stopped</span>}
+                                                    {!isLoading && message.sibling_ids && message.status && message.status !== 'complete' && (
+                                                        <button
+                                                            onClick={() => regenerateMessage(message)}
+                                                            className="text-zinc-400 hover:text-white transition-colors"
+                                                            title="Generate this reply again"
+                                                        >
+                                                            ↻ Retry
+                                                        </button>
+                                                    )}
+                                                    <CopyButton
+                                                        text={message.content}
+                                                        className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-white"
+                                                    />
+                                                    {!isLoading && message.sibling_ids && editingId !== message.id && (message.status ?? 'complete') === 'complete' && (
+                                                        <button
+                                                            onClick={() => {
+                                                                if (message.role === 'assistant') {
+                                                                    regenerateMessage(message);
+                                                                } else {
+                                                                    setEditingId(message.id);
+                                                                    setEditText(message.content);
+                                                                }
+                                                            }}
+                                                            className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-white transition-all"
+                                                        >
+                                                            {message.role === 'assistant' ? 'Regenerate' : 'Edit'}
+                                                        </button>
+                                                    )}
                                                 </div>
-                                                <p className={`text-[10px] text-zinc-600 mt-1 px-1
-                          ${message.role === 'user' ? 'text-right' : ''}`}
-                                                >
-                                                    {formatTime(message.created_at)}
-                                                </p>
                                             </div>
                                         </div>
                                     ))}
 
+                                    {/* Streaming reply */}
+                                    {isTyping && streamingText && (
+                                        <div className="flex gap-3 max-w-2xl self-start">
+                                            <div className="w-7 h-7 rounded-md bg-zinc-700 border border-zinc-600 flex items-center justify-center text-xs text-white flex-shrink-0">
+                                                AI
+                                            </div>
+                                            <div className="px-4 py-3 bg-zinc-800 border border-zinc-700 rounded-xl rounded-bl-sm text-sm leading-relaxed text-white">
+                                                <Markdown content={streamingText} />
+                                            </div>
+                                        </div>
+                                    )}
+
                                     {/* Typing indicator */}
-                                    {isTyping && (
+                                    {isTyping && !streamingText && (
                                         <div className="flex gap-3 max-w-2xl self-start">
                                             <div className="w-7 h-7 rounded-md bg-zinc-700 border border-zinc-600 flex items-center justify-center text-xs text-white">
                                                 AI
@@ -425,31 +1826,24 @@ function App() {
                             <div ref={messagesEndRef} />
                         </main>
 
-                        {/* Input */}
-                        <footer className="px-6 py-4 bg-zinc-800 border-t border-zinc-700">
-                            <form onSubmit={sendMessage} className="max-w-2xl mx-auto flex gap-3 items-end">
-                                <textarea
-                                    ref={textareaRef}
-                                    className="flex-1 px-4 py-3 bg-zinc-900 border border-zinc-700 rounded-xl text-white placeholder-zinc-500 text-sm resize-none focus:outline-none focus:border-zinc-500 min-h-[44px] max-h-[150px]"
-                                    placeholder="Type your message..."
-                                    value={inputValue}
-                                    onChange={(e) => setInputValue(e.target.value)}
-                                    onKeyDown={handleKeyDown}
-                                    disabled={isLoading}
-                                    rows={1}
-                                />
-                                <button
-                                    type="submit"
-                                    className="w-11 h-11 bg-white text-zinc-900 rounded-xl flex items-center justify-center hover:bg-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-                                    disabled={isLoading || !inputValue.trim()}
-                                >
-                                    ➤
-                                </button>
-                            </form>
-                            {error && (
-                                <p className="text-red-400 text-xs text-center mt-2">{error}</p>
-                            )}
-                        </footer>
+                        <Composer
+                            sessionId={activeSession.id}
+                            isLoading={isLoading}
+                            uploadCount={uploadCount}
+                            pendingAttachments={pendingAttachments}
+                            templates={templates}
+                            models={modelOptions?.models ?? []}
+                            currentModel={activeSession.model}
+                            onSend={sendMessage}
+                            onStop={stopReply}
+                            onAttach={uploadAttachments}
+                            onRemoveAttachment={removePendingAttachment}
+                            onClear={clearMessages}
+                            onNewChat={createNewSession}
+                            onSwitchModel={switchModel}
+                            onExport={exportSession}
+                            onError={setError}
+                        />
                     </>
                 ) : (
                     <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
@@ -464,8 +1858,23 @@ function App() {
                     </div>
                 )}
             </div>
+
+            {/* Error toast */}
+            {error && (
+                <div className="fixed top-4 right-4 max-w-sm bg-zinc-800 border border-red-500/40 text-red-300 text-sm rounded-lg px-4 py-3 flex items-start gap-3 shadow-lg">
+                    <span className="flex-1">{error}</span>
+                    <button onClick={() => setError(null)} className="text-zinc-500 hover:text-white transition-colors">
+                        ×
+                    </button>
+                </div>
+            )}
         </div>
     );
 }
 
-export default App;
+// Shared transcripts are public, so they skip the login screen and the rest of the app
+function Root() {
+    return SHARE_TOKEN ? <SharedTranscript token={SHARE_TOKEN} /> : <App />;
+}
+
+export default Root;
@@ -0,0 +1,377 @@
+import { useEffect, useState } from 'react';
+import type { ShareLink, Usage, User } from '../types.ts';
+
+// A user as the admin console lists it, with activity totals
+interface AdminUser extends User {
+    disabled_at: string | null;
+    created_at: string;
+    session_count: number;
+    message_count: number;
+    total_tokens: number;
+    last_active_at: string | null;
+}
+
+interface AdminSession {
+    id: number;
+    title: string;
+    archived: boolean;
+    message_count: number;
+    created_at: string;
+}
+
+interface ModelUsage {
+    model: string;
+    requests: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+}
+
+type AuditAction = 'user.disable' | 'user.enable' | 'user.promote' | 'user.demote' | 'user.delete' | 'session.delete' | 'share.delete';
+
+interface AuditEntry {
+    id: number;
+    admin_username: string;
+    action: AuditAction;
+    target_username: string | null;
+    details: { title?: string };
+    created_at: string;
+}
+
+// Everything the admin console shows about one user
+interface AdminUserDetail {
+    user: AdminUser;
+    sessions: AdminSession[];
+    shares: ShareLink[];
+    usage: { today: Usage; all_time: ModelUsage[] };
+    audit: AuditEntry[];
+}
+
+// How the audit log describes each action, followed by the target's username
+const AUDIT_LABELS: Record<AuditAction, string> = {
+    'user.disable': 'disabled',
+    'user.enable': 're-enabled',
+    'user.promote': 'made an admin:',
+    'user.demote': 'removed the admin role from',
+    'user.delete': 'deleted the account of',
+    'session.delete': 'deleted a chat of',
+    'share.delete': 'revoked a share link of',
+};
+
+function AuditRow({ entry }: { entry: AuditEntry }) {
+    return (
+        <li className="flex gap-3 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg">
+            <span className="text-zinc-500 flex-shrink-0">{new Date(entry.created_at).toLocaleString()}</span>
+            <span className="text-zinc-300 min-w-0 truncate">
+                <span className="text-white">{entry.admin_username}</span> {AUDIT_LABELS[entry.action]}{' '}
+                <span className="text-white">{entry.target_username ?? '(unknown)'}</span>
+                {entry.details.title && <span className="text-zinc-500"> · "{entry.details.title}"</span>}
+            </span>
+        </li>
+    );
+}
+
+// Admin console (admins only): users and their activity, moderation actions, and the audit log
+export function AdminConsole({ api, currentUserId, onClose }: {
+    api: <T>(path: string, init?: RequestInit) => Promise<T>;
+    currentUserId: number;
+    onClose: () => void;
+}) {
+    const [tab, setTab] = useState<'users' | 'audit'>('users');
+    const [query, setQuery] = useState('');
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [usersCursor, setUsersCursor] = useState<number | null>(null);
+    const [detail, setDetail] = useState<AdminUserDetail | null>(null);
+    const [audit, setAudit] = useState<AuditEntry[]>([]);
+    const [auditCursor, setAuditCursor] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Runs a request, showing its error above the console
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        }
+    };
+
+    // Loads the first page of users matching the search, or the page after `before`
+    const fetchUsers = (before: number | null = null) => run(async () => {
+        const params = new URLSearchParams({ q: query.trim() });
+        if (before !== null) params.set('before', String(before));
+        const data = await api<{ users: AdminUser[]; next_cursor: number | null }>(`/api/admin/users?${params}`);
+        setUsers(prev => before === null ? data.users : [...prev, ...data.users]);
+        setUsersCursor(data.next_cursor);
+    });
+
+    const fetchAudit = (before: number | null = null) => run(async () => {
+        const data = await api<{ entries: AuditEntry[]; next_cursor: number | null }>(`/api/admin/audit${before !== null ? `?before=${before}` : ''}`);
+        setAudit(prev => before === null ? data.entries : [...prev, ...data.entries]);
+        setAuditCursor(data.next_cursor);
+    });
+
+    // Loads a user's details and refreshes their row in the list
+    const loadUser = async (userId: number) => {
+        const [data, log] = await Promise.all([
+            api<Omit<AdminUserDetail, 'audit'>>(`/api/admin/users/${userId}`),
+            api<{ entries: AuditEntry[] }>(`/api/admin/audit?user=${userId}&limit=20`),
+        ]);
+        setDetail({ user: data.user, sessions: data.sessions, shares: data.shares, usage: data.usage, audit: log.entries });
+        setUsers(prev => prev.map(u => u.id === userId ? data.user : u));
+    };
+
+    // Search as the admin types
+    useEffect(() => {
+        const timer = setTimeout(() => fetchUsers(), 300);
+        return () => clearTimeout(timer);
+    }, [query]);
+
+    useEffect(() => {
+        if (tab === 'audit') fetchAudit();
+    }, [tab]);
+
+    const updateUser = (user: AdminUser, patch: { role?: 'user' | 'admin'; disabled?: boolean }) => run(async () => {
+        await api(`/api/admin/users/${user.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(patch),
+        });
+        await loadUser(user.id);
+    });
+
+    const deleteUser = (user: AdminUser) => run(async () => {
+        if (!confirm(`Delete ${user.username} and all of their chats, documents and share links? This can't be undone.`)) return;
+        await api(`/api/admin/users/${user.id}`, { method: 'DELETE' });
+        setUsers(prev => prev.filter(u => u.id !== user.id));
+        setDetail(null);
+    });
+
+    const deleteSession = (user: AdminUser, session: AdminSession) => run(async () => {
+        if (!confirm(`Delete the chat "${session.title}" of ${user.username}?`)) return;
+        await api(`/api/admin/users/${user.id}/sessions/${session.id}`, { method: 'DELETE' });
+        await loadUser(user.id);
+    });
+
+    const revokeShare = (user: AdminUser, link: ShareLink) => run(async () => {
+        if (!confirm(`Revoke ${user.username}'s link to "${link.title}"?`)) return;
+        await api(`/api/admin/users/${user.id}/shares/${link.id}`, { method: 'DELETE' });
+        await loadUser(user.id);
+    });
+
+    const tabClass = (name: typeof tab) => `px-3 py-1.5 rounded-lg transition-colors ${tab === name ? 'text-white bg-zinc-700' : 'text-zinc-500 hover:text-white'}`;
+    const buttonClass = 'px-3 py-1.5 border border-zinc-700 rounded-lg text-zinc-300 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+    const self = detail?.user.id === currentUserId;
+
+    return (
+        <div className="h-screen flex flex-col bg-zinc-900 text-sm">
+            <header className="px-6 py-4 bg-zinc-800 border-b border-zinc-700 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <h1 className="text-white font-medium">Admin console</h1>
+                    <button onClick={() => setTab('users')} className={tabClass('users')}>Users</button>
+                    <button onClick={() => setTab('audit')} className={tabClass('audit')}>Audit log</button>
+                </div>
+                <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+                    ← Back to chats
+                </button>
+            </header>
+            {error && <p className="px-6 py-2 text-red-400 bg-red-500/10 border-b border-red-500/30">{error}</p>}
+
+            {tab === 'users' ? (
+                <div className="flex-1 flex min-h-0">
+                    <section className="w-96 border-r border-zinc-700 flex flex-col min-h-0">
+                        <div className="p-4 border-b border-zinc-700">
+                            <input
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                placeholder="Search usernames"
+                                maxLength={50}
+                                autoFocus
+                                className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                        <ul className="flex-1 overflow-y-auto p-2 flex flex-col gap-1">
+                            {users.map(user => (
+                                <li key={user.id}>
+                                    <button
+                                        onClick={() => run(() => loadUser(user.id))}
+                                        className={`w-full text-left px-3 py-2 rounded-lg transition-colors
+                                            ${detail?.user.id === user.id ? 'bg-zinc-700' : 'hover:bg-zinc-800'}`}
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-white truncate">{user.username}</span>
+                                            {user.role === 'admin' && <span className="text-[10px] px-1.5 rounded bg-amber-500/20 text-amber-300">admin</span>}
+                                            {user.disabled_at && <span className="text-[10px] px-1.5 rounded bg-red-500/20 text-red-300">disabled</span>}
+                                        </div>
+                                        <div className="text-xs text-zinc-500">
+                                            {user.session_count} chats · {user.message_count} messages · {user.total_tokens.toLocaleString()} tokens
+                                        </div>
+                                    </button>
+                                </li>
+                            ))}
+                            {users.length === 0 && <li className="px-3 py-2 text-zinc-500">No users found.</li>}
+                            {usersCursor !== null && (
+                                <li>
+                                    <button onClick={() => fetchUsers(usersCursor)} className="w-full py-2 text-zinc-500 hover:text-white transition-colors">
+                                        Load more
+                                    </button>
+                                </li>
+                            )}
+                        </ul>
+                    </section>
+
+                    <section className="flex-1 overflow-y-auto p-6">
+                        {!detail ? (
+                            <p className="text-zinc-500">Select a user to see their activity.</p>
+                        ) : (
+                            <div className="max-w-3xl flex flex-col gap-6">
+                                <div className="flex items-start justify-between gap-4">
+                                    <div>
+                                        <h2 className="text-white text-lg font-medium">{detail.user.username}</h2>
+                                        <p className="text-zinc-500 text-xs">
+                                            Joined {new Date(detail.user.created_at).toLocaleDateString()}
+                                            {' · '}last active {detail.user.last_active_at ? new Date(detail.user.last_active_at).toLocaleString() : 'never'}
+                                            {detail.user.disabled_at && ` · disabled ${new Date(detail.user.disabled_at).toLocaleString()}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2 flex-shrink-0">
+                                        <button
+                                            onClick={() => updateUser(detail.user, { role: detail.user.role === 'admin' ? 'user' : 'admin' })}
+                                            disabled={self}
+                                            className={buttonClass}
+                                        >
+                                            {detail.user.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                                        </button>
+                                        <button
+                                            onClick={() => updateUser(detail.user, { disabled: !detail.user.disabled_at })}
+                                            disabled={self}
+                                            className={buttonClass}
+                                        >
+                                            {detail.user.disabled_at ? 'Enable' : 'Disable'}
+                                        </button>
+                                        <button
+                                            onClick={() => deleteUser(detail.user)}
+                                            disabled={self}
+                                            className={`${buttonClass} border-red-500/40 text-red-400 hover:text-red-300`}
+                                        >
+                                            Delete account
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-4 gap-3">
+                                    {[
+                                        ['Chats', detail.user.session_count],
+                                        ['Messages', detail.user.message_count],
+                                        ['Tokens today', detail.usage.today.used_tokens],
+                                        ['Tokens overall', detail.user.total_tokens],
+                                    ].map(([label, value]) => (
+                                        <div key={label} className="px-4 py-3 bg-zinc-800 border border-zinc-700 rounded-lg">
+                                            <div className="text-zinc-500 text-xs">{label}</div>
+                                            <div className="text-white text-lg">{value.toLocaleString()}</div>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {detail.usage.all_time.length > 0 && (
+                                    <div>
+                                        <h3 className="text-zinc-400 mb-2">Usage by model</h3>
+                                        <table className="w-full text-left">
+                                            <thead className="text-zinc-500 text-xs">
+                                                <tr><th className="py-1">Model</th><th>Requests</th><th>Prompt tokens</th><th>Completion tokens</th></tr>
+                                            </thead>
+                                            <tbody className="text-zinc-300">
+                                                {detail.usage.all_time.map(row => (
+                                                    <tr key={row.model} className="border-t border-zinc-800">
+                                                        <td className="py-1 font-mono text-xs">{row.model}</td>
+                                                        <td>{row.requests.toLocaleString()}</td>
+                                                        <td>{row.prompt_tokens.toLocaleString()}</td>
+                                                        <td>{row.completion_tokens.toLocaleString()}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
+                                <div>
+                                    <h3 className="text-zinc-400 mb-2">Chats</h3>
+                                    {detail.sessions.length === 0 ? (
+                                        <p className="text-zinc-500 text-xs">No chats.</p>
+                                    ) : (
+                                        <ul className="flex flex-col gap-1">
+                                            {detail.sessions.map(session => (
+                                                <li key={session.id} className="flex items-center gap-3 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg">
+                                                    <span className="flex-1 truncate text-white">{session.title}</span>
+                                                    {session.archived && <span className="text-xs text-zinc-500">archived</span>}
+                                                    <span className="text-xs text-zinc-500 flex-shrink-0">
+                                                        {session.message_count} messages · {new Date(session.created_at).toLocaleDateString()}
+                                                    </span>
+                                                    <button
+                                                        onClick={() => deleteSession(detail.user, session)}
+                                                        className="text-zinc-500 hover:text-red-400 transition-colors"
+                                                    >
+                                                        Delete
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+
+                                {detail.shares.length > 0 && (
+                                    <div>
+                                        <h3 className="text-zinc-400 mb-2">Share links</h3>
+                                        <ul className="flex flex-col gap-1">
+                                            {detail.shares.map(link => (
+                                                <li key={link.id} className="flex items-center gap-3 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg">
+                                                    <a
+                                                        href={`/share/${link.token}`}
+                                                        target="_blank"
+                                                        rel="noreferrer"
+                                                        className="flex-1 truncate text-white hover:underline"
+                                                    >
+                                                        {link.title}
+                                                    </a>
+                                                    <span className="text-xs text-zinc-500 flex-shrink-0">
+                                                        {link.expires_at ? `expires ${new Date(link.expires_at).toLocaleDateString()}` : 'no expiry'}
+                                                    </span>
+                                                    <button
+                                                        onClick={() => revokeShare(detail.user, link)}
+                                                        className="text-zinc-500 hover:text-red-400 transition-colors"
+                                                    >
+                                                        Revoke
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+
+                                {detail.audit.length > 0 && (
+                                    <div>
+                                        <h3 className="text-zinc-400 mb-2">Admin actions on this account</h3>
+                                        <ul className="flex flex-col gap-1">
+                                            {detail.audit.map(entry => <AuditRow key={entry.id} entry={entry} />)}
+                                        </ul>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </section>
+                </div>
+            ) : (
+                <div className="flex-1 overflow-y-auto p-6">
+                    <ul className="max-w-4xl flex flex-col gap-1">
+                        {audit.map(entry => <AuditRow key={entry.id} entry={entry} />)}
+                        {audit.length === 0 && <li className="text-zinc-500">No admin actions yet.</li>}
+                    </ul>
+                    {auditCursor !== null && (
+                        <button onClick={() => fetchAudit(auditCursor)} className="mt-3 text-zinc-500 hover:text-white transition-colors">
+                            Load more
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,326 @@
+import { useEffect, useRef, useState, ChangeEvent, FormEvent, KeyboardEvent } from 'react';
+import type { Attachment, PromptTemplate } from '../types.ts';
+import { AttachmentChip } from './MessageParts.tsx';
+
+// An entry in the composer's slash menu; text is what choosing it puts in the composer
+interface SlashSuggestion {
+    text: string;
+    hint: string;
+}
+
+// Slash commands the composer runs itself; templates add their own /<name> commands
+const BUILT_IN_COMMANDS: { name: string; args?: string; hint: string }[] = [
+    { name: 'clear', hint: 'Clear the messages in this chat' },
+    { name: 'new', hint: 'Start a new chat' },
+    { name: 'model', args: '<model>', hint: 'Switch this chat to another model' },
+    { name: 'export', args: '[md|json]', hint: 'Download this chat (Markdown by default)' },
+];
+
+// Same placeholder syntax as backend/src/templates.ts
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+function fillTemplate(content: string, values: Record<string, string>): string {
+    return content.replace(TEMPLATE_VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
+
+// Message box under a chat: attachments, the slash menu for commands and templates, and the form for
+// filling in a template's variables. Commands that act on the chat are handed to the callbacks
+export function Composer({
+    sessionId, isLoading, uploadCount, pendingAttachments, templates, models, currentModel,
+    onSend, onStop, onAttach, onRemoveAttachment, onClear, onNewChat, onSwitchModel, onExport, onError,
+}: {
+    sessionId: number;
+    isLoading: boolean;
+    // Files still uploading; sending waits for them
+    uploadCount: number;
+    pendingAttachments: Attachment[];
+    templates: PromptTemplate[];
+    models: string[];
+    currentModel: string | null;
+    onSend: (text: string) => void;
+    onStop: () => void;
+    onAttach: (e: ChangeEvent<HTMLInputElement>) => void;
+    onRemoveAttachment: (attachment: Attachment) => void;
+    onClear: () => void;
+    onNewChat: () => void;
+    onSwitchModel: (model: string) => void;
+    onExport: (format: 'md' | 'json') => void;
+    onError: (message: string) => void;
+}) {
+    const [inputValue, setInputValue] = useState('');
+    // Template whose variables are being filled in before it is sent
+    const [fillingTemplate, setFillingTemplate] = useState<{ template: PromptTemplate; values: Record<string, string> } | null>(null);
+    const [slashIndex, setSlashIndex] = useState(0);
+    const [slashDismissed, setSlashDismissed] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const attachInputRef = useRef<HTMLInputElement>(null);
+
+    // A half-filled template belongs to the chat it was started in
+    useEffect(() => {
+        setFillingTemplate(null);
+    }, [sessionId]);
+
+    // Auto-resize textarea
+    useEffect(() => {
+        if (textareaRef.current) {
+            textareaRef.current.style.height = 'auto';
+            textareaRef.current.style.height = `${Math.min(textareaRef.current.scrollHeight, 150)}px`;
+        }
+    }, [inputValue]);
+
+    // Sends the composer's text, or runs it when it is a slash command
+    const submit = (e?: FormEvent) => {
+        e?.preventDefault();
+        const message = inputValue.trim();
+        if (!message || isLoading || uploadCount > 0) return;
+        if (runSlashCommand(message)) return;
+        setInputValue('');
+        onSend(message);
+    };
+
+    // Asks for the template's variables first; templates without any are sent right away
+    const applyTemplate = (template: PromptTemplate) => {
+        setInputValue('');
+        if (template.variables.length === 0) {
+            onSend(template.content);
+            return;
+        }
+        setFillingTemplate({ template, values: Object.fromEntries(template.variables.map(name => [name, ''])) });
+    };
+
+    const submitTemplate = (e: FormEvent) => {
+        e.preventDefault();
+        if (!fillingTemplate) return;
+        setFillingTemplate(null);
+        onSend(fillTemplate(fillingTemplate.template.content, fillingTemplate.values));
+    };
+
+    // Runs "/<command> [args]" typed in the composer; returns false for anything that isn't a known command,
+    // which is then sent as an ordinary message
+    const runSlashCommand = (text: string) => {
+        const match = text.match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+        if (!match) return false;
+        const [, name, args = ''] = match;
+        const template = templates.find(t => t.name.toLowerCase() === name.toLowerCase());
+        switch (name.toLowerCase()) {
+            case 'clear':
+                setInputValue('');
+                onClear();
+                return true;
+            case 'new':
+                setInputValue('');
+                onNewChat();
+                return true;
+            case 'model':
+                if (!args.trim()) {
+                    onError(`Usage: /model <model>. Available: ${models.join(', ') || 'unknown'}`);
+                    return true;
+                }
+                setInputValue('');
+                onSwitchModel(args.trim());
+                return true;
+            case 'export':
+                if (args.trim() && args.trim() !== 'md' && args.trim() !== 'json') {
+                    onError('Usage: /export [md|json]');
+                    return true;
+                }
+                setInputValue('');
+                onExport(args.trim() === 'json' ? 'json' : 'md');
+                return true;
+            default:
+                if (!template) return false;
+                applyTemplate(template);
+                return true;
+        }
+    };
+
+    // What the slash menu offers for the composer's text: commands while the name is being typed,
+    // then models for /model and formats for /export
+    const slashSuggestions = (): SlashSuggestion[] => {
+        if (slashDismissed) return [];
+        const command = inputValue.match(/^\/([\w-]*)$/);
+        if (command) {
+            const prefix = command[1].toLowerCase();
+            return [
+                ...BUILT_IN_COMMANDS.map(c => ({ text: `/${c.name}${c.args ? ' ' : ''}`, hint: c.args ? `${c.args} · ${c.hint}` : c.hint, name: c.name })),
+                ...templates.map(t => ({ text: `/${t.name}`, hint: t.description || t.content.slice(0, 80), name: t.name.toLowerCase() }))
+            ].filter(c => c.name.startsWith(prefix)).map(({ text, hint }) => ({ text, hint }));
+        }
+        const args = inputValue.match(/^\/(model|export)\s+(\S*)$/);
+        if (!args) return [];
+        const options = args[1] === 'model' ? models : ['md', 'json'];
+        return options
+            .filter(option => option.toLowerCase().startsWith(args[2].toLowerCase()))
+            .map(option => ({ text: `/${args[1]} ${option}`, hint: option === currentModel ? 'current' : '' }));
+    };
+
+    // Commands that take an argument fill in the composer; anything else runs straight away
+    const chooseSuggestion = (suggestion: SlashSuggestion) => {
+        setSlashIndex(0);
+        if (suggestion.text.endsWith(' ')) {
+            setInputValue(suggestion.text);
+            textareaRef.current?.focus();
+            return;
+        }
+        runSlashCommand(suggestion.text);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        const suggestions = slashSuggestions();
+        if (suggestions.length > 0) {
+            const index = Math.min(slashIndex, suggestions.length - 1);
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                setSlashIndex((index + (e.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+                e.preventDefault();
+                chooseSuggestion(suggestions[index]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setSlashDismissed(true);
+                return;
+            }
+        }
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+        }
+    };
+
+    const suggestions = slashSuggestions();
+    const slashActive = Math.min(slashIndex, suggestions.length - 1);
+
+    return (
+        <footer className="px-6 py-4 bg-zinc-800 border-t border-zinc-700">
+            {(pendingAttachments.length > 0 || uploadCount > 0) && (
+                <div className="max-w-2xl mx-auto flex flex-wrap gap-1.5 mb-2">
+                    {pendingAttachments.map(attachment => (
+                        <AttachmentChip
+                            key={attachment.id}
+                            attachment={attachment}
+                            onRemove={() => onRemoveAttachment(attachment)}
+                        />
+                    ))}
+                    {uploadCount > 0 && <span className="text-xs text-zinc-500 self-center">Uploading…</span>}
+                </div>
+            )}
+            {fillingTemplate && (
+                <form onSubmit={submitTemplate} className="max-w-2xl mx-auto mb-3 p-3 bg-zinc-900 border border-zinc-700 rounded-xl flex flex-col gap-2 text-sm">
+                    <p className="text-zinc-400">
+                        <span className="font-mono text-white">/{fillingTemplate.template.name}</span>
+                        {fillingTemplate.template.description && ` · ${fillingTemplate.template.description}`}
+                    </p>
+                    {fillingTemplate.template.variables.map((name, index) => (
+                        <label key={name} className="flex flex-col gap-1 text-xs text-zinc-400">
+                            {name}
+                            <textarea
+                                value={fillingTemplate.values[name]}
+                                onChange={(e) => setFillingTemplate({
+                                    ...fillingTemplate,
+                                    values: { ...fillingTemplate.values, [name]: e.target.value }
+                                })}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Escape') setFillingTemplate(null);
+                                }}
+                                autoFocus={index === 0}
+                                rows={2}
+                                className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm resize-y focus:outline-none focus:border-zinc-500"
+                            />
+                        </label>
+                    ))}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setFillingTemplate(null)}
+                            className="py-1.5 px-4 text-zinc-400 hover:text-white transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isLoading || uploadCount > 0}
+                            className="py-1.5 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors disabled:opacity-40"
+                        >
+                            Send
+                        </button>
+                    </div>
+                </form>
+            )}
+            <form onSubmit={submit} className="max-w-2xl mx-auto flex gap-3 items-end">
+                <button
+                    type="button"
+                    onClick={() => attachInputRef.current?.click()}
+                    disabled={isLoading || pendingAttachments.length + uploadCount >= 5}
+                    className="w-11 h-11 border border-zinc-700 text-zinc-400 rounded-xl flex items-center justify-center hover:text-white hover:border-zinc-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Attach text, Markdown, code, CSV or PDF files"
+                >
+                    📎
+                </button>
+                <input
+                    ref={attachInputRef}
+                    type="file"
+                    multiple
+                    accept=".txt,.md,.markdown,.csv,.pdf,.json,.log,.yaml,.yml,.xml,.html,.css,.js,.jsx,.ts,.tsx,.py,.java,.go,.rs,.c,.h,.cpp,.cs,.rb,.php,.sh,.sql,text/*"
+                    className="hidden"
+                    onChange={onAttach}
+                />
+                <div className="relative flex-1 flex">
+                    {suggestions.length > 0 && (
+                        <ul className="absolute bottom-full left-0 right-0 mb-2 max-h-60 overflow-y-auto py-1 bg-zinc-900 border border-zinc-700 rounded-xl shadow-lg text-sm z-10">
+                            {suggestions.map((suggestion, index) => (
+                                <li key={suggestion.text}>
+                                    <button
+                                        type="button"
+                                        onMouseDown={(e) => e.preventDefault()}
+                                        onMouseEnter={() => setSlashIndex(index)}
+                                        onClick={() => chooseSuggestion(suggestion)}
+                                        className={`w-full px-3 py-1.5 flex gap-3 text-left transition-colors
+                                            ${index === slashActive ? 'bg-zinc-700 text-white' : 'text-zinc-300'}`}
+                                    >
+                                        <span className="font-mono flex-shrink-0">{suggestion.text.trim()}</span>
+                                        <span className="text-zinc-500 truncate">{suggestion.hint}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <textarea
+                        ref={textareaRef}
+                        className="flex-1 px-4 py-3 bg-zinc-900 border border-zinc-700 rounded-xl text-white placeholder-zinc-500 text-sm resize-none focus:outline-none focus:border-zinc-500 min-h-[44px] max-h-[150px]"
+                        placeholder="Type your message... (/ for commands and templates)"
+                        value={inputValue}
+                        onChange={(e) => {
+                            setInputValue(e.target.value);
+                            setSlashIndex(0);
+                            setSlashDismissed(false);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        disabled={isLoading}
+                        rows={1}
+                    />
+                </div>
+                {isLoading ? (
+                    <button
+                        type="button"
+                        onClick={onStop}
+                        className="w-11 h-11 border border-zinc-500 text-white rounded-xl flex items-center justify-center hover:bg-zinc-700 transition-colors"
+                        title="Stop generating"
+                    >
+                        ■
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        className="w-11 h-11 bg-white text-zinc-900 rounded-xl flex items-center justify-center hover:bg-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        disabled={uploadCount > 0 || !inputValue.trim()}
+                    >
+                        ➤
+                    </button>
+                )}
+            </form>
+        </footer>
+    );
+}
@@ -0,0 +1,64 @@
+import { useRef, useState, ComponentPropsWithoutRef } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'highlight.js/styles/github-dark.css';
+import 'katex/dist/katex.min.css';
+
+// Copies text to the clipboard and briefly shows "Copied"
+export function CopyButton({ text, className = '' }: { text: string | (() => string); className?: string }) {
+    const [copied, setCopied] = useState(false);
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(typeof text === 'function' ? text() : text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch (err) {
+            console.error('Error copying to clipboard:', err);
+        }
+    };
+
+    return (
+        <button onClick={copy} className={`transition-colors ${className}`}>
+            {copied ? 'Copied' : 'Copy'}
+        </button>
+    );
+}
+
+// Fenced code block with a copy button (reads the text back from the DOM after highlighting)
+function CodeBlock({ children, node: _node, ...props }: ComponentPropsWithoutRef<'pre'> & { node?: unknown }) {
+    const preRef = useRef<HTMLPreElement>(null);
+    return (
+        <div className="relative group/code">
+            <CopyButton
+                text={() => preRef.current?.textContent ?? ''}
+                className="absolute top-2 right-2 text-[10px] text-zinc-400 hover:text-white bg-zinc-800 border border-zinc-600 rounded px-2 py-0.5 opacity-0 group-hover/code:opacity-100"
+            />
+            <pre ref={preRef} {...props}>{children}</pre>
+        </div>
+    );
+}
+
+function Link({ node: _node, ...props }: ComponentPropsWithoutRef<'a'> & { node?: unknown }) {
+    return <a {...props} target="_blank" rel="noopener noreferrer" />;
+}
+
+// Renders assistant Markdown: GFM tables/lists, highlighted code, inline and block math
+// Raw HTML in the source is dropped rather than rendered
+export function Markdown({ content }: { content: string }) {
+    return (
+        <div className="markdown">
+            <ReactMarkdown
+                skipHtml
+                remarkPlugins={[remarkGfm, remarkMath]}
+                rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+                components={{ pre: CodeBlock, a: Link }}
+            >
+                {content}
+            </ReactMarkdown>
+        </div>
+    );
+}
@@ -0,0 +1,78 @@
+import type { ReactNode } from 'react';
+import type { Attachment, Message, ToolCall } from '../types.ts';
+import { formatSize } from '../utils.ts';
+
+// File chip on a message or in the composer; onRemove adds a × for unsent uploads
+export function AttachmentChip({ attachment, onOpen, onRemove }: { attachment: Pick<Attachment, 'filename' | 'size'>; onOpen?: () => void; onRemove?: () => void }) {
+    return (
+        <span className="inline-flex items-center gap-1.5 max-w-[16rem] px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-lg text-xs text-zinc-300">
+            <button
+                type="button"
+                onClick={onOpen}
+                disabled={!onOpen}
+                className="truncate hover:text-white disabled:hover:text-zinc-300 transition-colors"
+                title={attachment.filename}
+            >
+                📎 {attachment.filename}
+            </button>
+            <span className="text-zinc-500 flex-shrink-0">{formatSize(attachment.size)}</span>
+            {onRemove && (
+                <button type="button" onClick={onRemove} className="text-zinc-500 hover:text-red-400 transition-colors">
+                    ×
+                </button>
+            )}
+        </span>
+    );
+}
+
+// "< 2/3 >" control for moving between a message and its alternatives (edits / regenerations)
+export function BranchSwitcher({ message, disabled, onSwitch }: { message: Message; disabled: boolean; onSwitch: (message: Message, offset: number) => void }) {
+    const siblings = message.sibling_ids;
+    if (!siblings || siblings.length < 2) return null;
+    return (
+        <span className="flex items-center gap-1 text-zinc-500">
+            <button
+                onClick={() => onSwitch(message, -1)}
+                disabled={disabled || siblings[0] === message.id}
+                className="hover:text-white disabled:opacity-40 transition-colors"
+            >
+                &lt;
+            </button>
+            {siblings.indexOf(message.id) + 1}/{siblings.length}
+            <button
+                onClick={() => onSwitch(message, 1)}
+                disabled={disabled || siblings[siblings.length - 1] === message.id}
+                className="hover:text-white disabled:opacity-40 transition-colors"
+            >
+                &gt;
+            </button>
+        </span>
+    );
+}
+
+// A tool call shown as a collapsible step between a user message and the reply
+// A regenerated reply can start with a tool call, so steps carry the branch switcher too
+export function ToolStep({ anchorId, call, branchSwitcher }: { anchorId?: string; call: ToolCall; branchSwitcher?: ReactNode }) {
+    return (
+        <details id={anchorId} className="group/tool max-w-2xl self-start ml-10 text-xs animate-fade-in">
+            <summary className="cursor-pointer select-none list-none flex items-center gap-2 text-zinc-500 hover:text-zinc-300 transition-colors">
+                <span className="inline-block transition-transform group-open/tool:rotate-90">▸</span>
+                <span>🔧 {call.name}</span>
+                {call.error !== null && <span className="text-red-400">failed</span>}
+                <span className="text-[10px] text-zinc-600" onClick={(e) => e.preventDefault()}>{branchSwitcher}</span>
+            </summary>
+            <div className="mt-1.5 flex flex-col gap-1.5 px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-zinc-300">
+                <div>
+                    <p className="text-zinc-500 mb-0.5">Arguments</p>
+                    <pre className="whitespace-pre-wrap break-words">{JSON.stringify(call.args, null, 2)}</pre>
+                </div>
+                <div>
+                    <p className="text-zinc-500 mb-0.5">{call.error !== null ? 'Error' : 'Result'}</p>
+                    <pre className={`max-h-64 overflow-y-auto whitespace-pre-wrap break-words ${call.error !== null ? 'text-red-300' : ''}`}>
+                        {call.error ?? JSON.stringify(call.result, null, 2)}
+                    </pre>
+                </div>
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import type { Citation, ToolCall } from '../types.ts';
+import { API_URL, formatTime } from '../utils.ts';
+import { Markdown } from './Markdown.tsx';
+import { AttachmentChip, ToolStep } from './MessageParts.tsx';
+
+// A message in a shared copy; files are listed but can't be downloaded
+interface SharedMessage {
+    role: 'user' | 'assistant' | 'tool';
+    content: string;
+    citations: Citation[] | null;
+    tool_call: ToolCall | null;
+    attachments: { filename: string; size: number }[];
+    created_at: string;
+}
+
+interface SharedConversation {
+    title: string;
+    messages: SharedMessage[];
+    created_at: string;
+    expires_at: string | null;
+}
+
+// Read-only view of a shared chat at /share/<token>; works without an account
+export function SharedTranscript({ token }: { token: string }) {
+    const [share, setShare] = useState<SharedConversation | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetch(`${API_URL}/api/share/${encodeURIComponent(token)}`)
+            .then(response => response.json())
+            .then(data => {
+                if (data.success) setShare(data.share);
+                else setError(data.error || 'Failed to load the shared chat');
+            })
+            .catch(() => setError('Failed to connect to server'));
+    }, [token]);
+
+    useEffect(() => {
+        if (share) document.title = `${share.title} · AI Chat`;
+    }, [share]);
+
+    if (!share) {
+        return (
+            <div className="min-h-screen bg-zinc-900 flex items-center justify-center p-4">
+                <p className={`text-sm ${error ? 'text-red-400' : 'text-zinc-500'}`}>{error ?? 'Loading shared chat…'}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-zinc-900">
+            <header className="px-6 py-4 border-b border-zinc-700">
+                <h1 className="text-white font-medium truncate">{share.title}</h1>
+                <p className="text-zinc-500 text-xs">
+                    Shared chat (read-only) · copied {new Date(share.created_at).toLocaleString()}
+                    {share.expires_at && ` · link expires ${new Date(share.expires_at).toLocaleString()}`}
+                </p>
+            </header>
+            <main className="max-w-3xl mx-auto p-6 flex flex-col gap-4">
+                {share.messages.map((message, i) => message.role === 'tool' && message.tool_call ? (
+                    <ToolStep key={i} call={message.tool_call} />
+                ) : (
+                    <div key={i} className={`flex gap-3 max-w-2xl ${message.role === 'user' ? 'self-end flex-row-reverse' : 'self-start'}`}>
+                        <div className={`w-7 h-7 rounded-md flex items-center justify-center text-xs font-medium flex-shrink-0
+                            ${message.role === 'user' ? 'bg-white text-zinc-900' : 'bg-zinc-700 border border-zinc-600 text-white'}`}
+                        >
+                            {message.role === 'user' ? 'U' : 'AI'}
+                        </div>
+                        <div>
+                            <div className={`px-4 py-3 rounded-xl text-sm leading-relaxed
+                                ${message.role === 'user'
+                                    ? 'bg-white text-zinc-900 rounded-br-sm'
+                                    : 'bg-zinc-800 border border-zinc-700 text-white rounded-bl-sm'}`}
+                            >
+                                {message.role === 'assistant'
+                                    ? <Markdown content={message.content} />
+                                    : <span className="whitespace-pre-wrap break-words">{message.content}</span>}
+                            </div>
+                            {message.attachments.length > 0 && (
+                                <div className={`flex flex-wrap gap-1.5 mt-1.5 ${message.role === 'user' ? 'justify-end' : ''}`}>
+                                    {message.attachments.map((attachment, j) => <AttachmentChip key={j} attachment={attachment} />)}
+                                </div>
+                            )}
+                            {message.citations && message.citations.length > 0 && (
+                                <div className="mt-1.5 flex flex-col gap-1">
+                                    {message.citations.map(citation => (
+                                        <details key={citation.index} className="text-xs text-zinc-300">
+                                            <summary className="cursor-pointer select-none text-zinc-400 hover:text-white transition-colors">
+                                                [{citation.index}] {citation.filename}
+                                            </summary>
+                                            <blockquote className="mt-1 max-h-48 overflow-y-auto px-3 py-2 bg-zinc-800 border-l-2 border-zinc-500 rounded whitespace-pre-wrap">
+                                                {citation.excerpt}
+                                            </blockquote>
+                                        </details>
+                                    ))}
+                                </div>
+                            )}
+                            <div className={`text-[10px] text-zinc-600 mt-1 px-1 ${message.role === 'user' ? 'text-right' : ''}`}>
+                                {formatTime(message.created_at)}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </main>
+        </div>
+    );
+}
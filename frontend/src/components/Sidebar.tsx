@@ -0,0 +1,406 @@
+import { useEffect, useState } from 'react';
+import type { Label, SearchResult, Session, Usage, User } from '../types.ts';
+
+// Sidebar drags carry the chat id in a custom type so other drags (files, text) are ignored
+const SESSION_DRAG_TYPE = 'application/x-chat-session';
+
+// Renders a search snippet with its highlight markers turned into <mark> elements
+function Highlighted({ text }: { text: string }) {
+    const parts = text.split(/(\uE000[^\uE001]*\uE001)/);
+    return (
+        <>
+            {parts.map((part, i) => part.startsWith('\uE000')
+                ? <mark key={i} className="bg-yellow-300/30 text-white rounded-sm">{part.slice(1, -1)}</mark>
+                : part)}
+        </>
+    );
+}
+
+// Sidebar: new chat, search, tags and the archive toggle, the chat list grouped into pinned chats and folders,
+// today's usage and the account footer
+export function Sidebar({
+    api, user, sessions, activeSession, folders, tags, tagFilter, showArchived, usage,
+    onSelect, onNewChat, onLoadMore, onUpdate, onDelete, onTagFilterChange, onShowArchivedChange,
+    onPromptLabel, onDeleteFolder, onDeleteTag, onOpenSearchResult, onError, onOpenAdmin, onLogout,
+}: {
+    api: <T>(path: string, init?: RequestInit) => Promise<T>;
+    user: User;
+    sessions: Session[];
+    activeSession: Session | null;
+    folders: Label[];
+    tags: Label[];
+    tagFilter: number | null;
+    showArchived: boolean;
+    usage: Usage | null;
+    onSelect: (session: Session) => void;
+    onNewChat: () => void;
+    onLoadMore: () => void;
+    // Renames, files, pins, archives or tags a chat (see PATCH /api/sessions/:sessionId)
+    onUpdate: (sessionId: number, patch: Record<string, unknown>, failure: string) => void;
+    onDelete: (sessionId: number) => void;
+    onTagFilterChange: (tagId: number | null) => void;
+    onShowArchivedChange: (showArchived: boolean) => void;
+    // Creates (label null) or renames a folder or tag after asking for its name
+    onPromptLabel: (kind: 'folders' | 'tags', label?: Label | null) => void;
+    onDeleteFolder: (folder: Label) => void;
+    onDeleteTag: (tag: Label) => void;
+    onOpenSearchResult: (result: SearchResult) => void;
+    onError: (err: unknown, fallback: string) => void;
+    onOpenAdmin: () => void;
+    onLogout: () => void;
+}) {
+    // Search state
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+    // Chat whose title is being edited inline
+    const [renaming, setRenaming] = useState<{ id: number; title: string } | null>(null);
+    const [collapsedFolders, setCollapsedFolders] = useState<number[]>([]);
+    // Folder a dragged chat is over ('none' for the top level)
+    const [dropTarget, setDropTarget] = useState<number | 'none' | null>(null);
+
+    // Debounced search as the user types
+    useEffect(() => {
+        const query = searchQuery.trim();
+        if (query.length < 2) {
+            setSearchResults(null);
+            return;
+        }
+        const timer = setTimeout(() => searchConversations(query), 300);
+        return () => clearTimeout(timer);
+    }, [searchQuery]);
+
+    // Search functions
+    const searchConversations = async (query: string) => {
+        try {
+            const data = await api<{ results: SearchResult[] }>(`/api/search?q=${encodeURIComponent(query)}`);
+            setSearchResults(data.results);
+        } catch (err) {
+            onError(err, 'Search failed');
+        }
+    };
+
+    // Saves the inline rename; the server keeps automatic titles from replacing it later
+    const renameSession = () => {
+        if (!renaming) return;
+        const title = renaming.title.trim();
+        setRenaming(null);
+        if (!title || title === sessions.find(s => s.id === renaming.id)?.title) return;
+        onUpdate(renaming.id, { title }, 'Failed to rename chat');
+    };
+
+    // Drop handlers for a folder in the sidebar ('none': the top level)
+    const dropTargetProps = (target: number | 'none') => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+            e.preventDefault();
+            setDropTarget(target);
+        },
+        onDragLeave: (e: React.DragEvent) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+        },
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            setDropTarget(null);
+            const sessionId = Number(e.dataTransfer.getData(SESSION_DRAG_TYPE));
+            const folderId = target === 'none' ? null : target;
+            if (sessionId && sessions.find(s => s.id === sessionId)?.folder_id !== folderId) {
+                onUpdate(sessionId, { folderId }, 'Failed to move chat');
+            }
+        }
+    });
+
+    // Sidebar entry for a chat; drag it onto a folder to move it
+    const sessionRow = (session: Session) => (
+        <div
+            key={session.id}
+            draggable={renaming?.id !== session.id}
+            onDragStart={(e) => {
+                e.dataTransfer.setData(SESSION_DRAG_TYPE, String(session.id));
+                e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragEnd={() => setDropTarget(null)}
+            onClick={() => onSelect(session)}
+            className={`px-3 py-2.5 rounded-lg cursor-pointer flex items-center justify-between mb-1 transition-colors group
+                    ${activeSession?.id === session.id
+                    ? 'bg-zinc-700 text-white'
+                    : 'text-zinc-400 hover:bg-zinc-700/50 hover:text-white'}`}
+        >
+            {renaming?.id === session.id ? (
+                <input
+                    value={renaming.title}
+                    onChange={(e) => setRenaming({ id: session.id, title: e.target.value })}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') renameSession();
+                        else if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    onBlur={() => setRenaming(null)}
+                    maxLength={100}
+                    autoFocus
+                    className="flex-1 min-w-0 px-1.5 py-0.5 bg-zinc-900 border border-zinc-500 rounded text-sm text-white focus:outline-none"
+                    title="Enter to save, Esc to cancel"
+                />
+            ) : (
+                <span
+                    className="truncate text-sm"
+                    onDoubleClick={() => setRenaming({ id: session.id, title: session.title })}
+                >
+                    {session.title}
+                </span>
+            )}
+            {renaming?.id !== session.id && (
+                <span className="flex flex-shrink-0">
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onUpdate(session.id, { pinned: !session.pinned }, 'Failed to pin chat');
+                        }}
+                        className={`group-hover:opacity-100 hover:text-white transition-all px-1 text-xs
+                            ${session.pinned ? 'opacity-100 text-zinc-300' : 'opacity-0 text-zinc-500'}`}
+                        title={session.pinned ? 'Unpin' : 'Pin to the top'}
+                    >
+                        📌
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            setRenaming({ id: session.id, title: session.title });
+                        }}
+                        className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-white transition-all px-1 text-xs"
+                        title="Rename"
+                    >
+                        ✎
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onUpdate(session.id, { archived: !session.archived }, 'Failed to archive chat');
+                        }}
+                        className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-white transition-all px-1 text-xs"
+                        title={session.archived ? 'Move back to chats' : 'Archive'}
+                    >
+                        {session.archived ? '↺' : '🗄'}
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onDelete(session.id);
+                        }}
+                        className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-all px-1"
+                    >
+                        ×
+                    </button>
+                </span>
+            )}
+        </div>
+    );
+
+    const pinnedSessions = sessions.filter(s => s.pinned);
+    const unpinnedSessions = sessions.filter(s => !s.pinned);
+
+    return (
+        <aside className="w-64 bg-zinc-800 border-r border-zinc-700 flex flex-col flex-shrink-0">
+            <div className="p-4 border-b border-zinc-700">
+                <button
+                    onClick={onNewChat}
+                    className="w-full py-3 px-4 bg-white text-zinc-900 font-medium rounded-lg hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2"
+                >
+                    + New Chat
+                </button>
+            </div>
+
+            <div className="px-4 pt-3">
+                <input
+                    type="search"
+                    className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-lg text-white text-sm placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
+                    placeholder="Search chats..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                />
+            </div>
+
+            {!searchResults && (
+                <div className="flex flex-wrap items-center gap-1 px-4 pt-2 text-xs">
+                    {tags.map(tag => (
+                        <span
+                            key={tag.id}
+                            className={`group inline-flex items-center rounded-full border transition-colors
+                                ${tagFilter === tag.id
+                                    ? 'bg-white text-zinc-900 border-white'
+                                    : 'border-zinc-600 text-zinc-400 hover:text-white'}`}
+                        >
+                            <button
+                                onClick={() => onTagFilterChange(tagFilter === tag.id ? null : tag.id)}
+                                onDoubleClick={() => onPromptLabel('tags', tag)}
+                                className="pl-2 pr-1 py-0.5"
+                                title="Show chats with this tag (double-click to rename)"
+                            >
+                                #{tag.name}
+                            </button>
+                            <button
+                                onClick={() => onDeleteTag(tag)}
+                                className="pr-1.5 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all"
+                                title="Delete tag"
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                    <button
+                        onClick={() => onPromptLabel('tags')}
+                        className="px-2 py-0.5 text-zinc-500 hover:text-white transition-colors"
+                    >
+                        + Tag
+                    </button>
+                    <button
+                        onClick={() => onShowArchivedChange(!showArchived)}
+                        className={`ml-auto px-2 py-0.5 rounded-full transition-colors
+                            ${showArchived ? 'bg-zinc-600 text-white' : 'text-zinc-500 hover:text-white'}`}
+                        title={showArchived ? 'Back to your chats' : 'Show archived chats'}
+                    >
+                        Archived
+                    </button>
+                </div>
+            )}
+
+            {searchResults ? (
+                <div className="flex-1 overflow-y-auto p-2">
+                    {searchResults.map(result => (
+                        <div
+                            key={`${result.session_id}-${result.message_id}`}
+                            onClick={() => onOpenSearchResult(result)}
+                            className="px-3 py-2.5 rounded-lg cursor-pointer mb-1 text-zinc-400 hover:bg-zinc-700/50 hover:text-white transition-colors"
+                        >
+                            <p className="text-xs text-zinc-500 truncate">
+                                {result.message_id === null ? 'Chat title' : `${result.session_title} · ${result.role === 'user' ? 'You' : 'AI'}`}
+                            </p>
+                            <p className="text-sm line-clamp-3"><Highlighted text={result.snippet} /></p>
+                        </div>
+                    ))}
+                    {searchResults.length === 0 && (
+                        <p className="text-zinc-500 text-xs text-center p-4">No matches found.</p>
+                    )}
+                </div>
+            ) : (
+                <div
+                    className="flex-1 overflow-y-auto p-2"
+                    onScroll={(e) => {
+                        const list = e.currentTarget;
+                        if (list.scrollHeight - list.scrollTop - list.clientHeight < 100) onLoadMore();
+                    }}
+                >
+                    {pinnedSessions.length > 0 && (
+                        <>
+                            <p className="px-3 pt-2 pb-1 text-xs text-zinc-500">Pinned</p>
+                            {pinnedSessions.map(sessionRow)}
+                        </>
+                    )}
+                    {folders.map(folder => {
+                        const collapsed = collapsedFolders.includes(folder.id);
+                        const folderSessions = unpinnedSessions.filter(s => s.folder_id === folder.id);
+                        return (
+                            <div
+                                key={folder.id}
+                                {...dropTargetProps(folder.id)}
+                                className={`mb-1 rounded-lg transition-colors ${dropTarget === folder.id ? 'bg-zinc-700/40 ring-1 ring-zinc-500' : ''}`}
+                            >
+                                <div className="group flex items-center gap-1 px-3 pt-2 pb-1 text-xs text-zinc-500">
+                                    <button
+                                        onClick={() => setCollapsedFolders(prev => collapsed ? prev.filter(id => id !== folder.id) : [...prev, folder.id])}
+                                        className="flex-1 flex items-center gap-1.5 min-w-0 text-left hover:text-white transition-colors"
+                                    >
+                                        <span>{collapsed ? '▸' : '▾'}</span>
+                                        <span className="truncate">{folder.name}</span>
+                                    </button>
+                                    <button
+                                        onClick={() => onPromptLabel('folders', folder)}
+                                        className="opacity-0 group-hover:opacity-100 hover:text-white transition-all px-1"
+                                        title="Rename folder"
+                                    >
+                                        ✎
+                                    </button>
+                                    <button
+                                        onClick={() => onDeleteFolder(folder)}
+                                        className="opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all px-1"
+                                        title="Delete folder"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                                {!collapsed && folderSessions.map(sessionRow)}
+                                {!collapsed && folderSessions.length === 0 && (
+                                    <p className="px-3 pb-2 text-xs text-zinc-600">Drag chats here</p>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <div
+                        {...dropTargetProps('none')}
+                        className={`rounded-lg transition-colors ${dropTarget === 'none' ? 'bg-zinc-700/40 ring-1 ring-zinc-500' : ''}`}
+                    >
+                        {folders.length > 0 && <p className="px-3 pt-2 pb-1 text-xs text-zinc-500">Chats</p>}
+                        {unpinnedSessions.filter(s => !folders.some(f => f.id === s.folder_id)).map(sessionRow)}
+                    </div>
+                    {sessions.length === 0 && (
+                        <p className="text-zinc-500 text-xs text-center p-4">
+                            {showArchived
+                                ? 'No archived chats.'
+                                : tagFilter !== null ? 'No chats with this tag.' : 'No chats yet. Start a new one!'}
+                        </p>
+                    )}
+                    <button
+                        onClick={() => onPromptLabel('folders')}
+                        className="w-full px-3 py-2 text-left text-xs text-zinc-500 hover:text-white transition-colors"
+                    >
+                        + New folder
+                    </button>
+                </div>
+            )}
+
+            {usage && (
+                <div className="px-4 py-3 border-t border-zinc-700 text-xs text-zinc-500" title={`Resets ${new Date(usage.resets_at).toLocaleString()}`}>
+                    <div className="flex justify-between">
+                        <span>Tokens today</span>
+                        <span>
+                            {usage.used_tokens.toLocaleString()}
+                            {usage.quota !== null && ` / ${usage.quota.toLocaleString()}`}
+                        </span>
+                    </div>
+                    {usage.quota !== null && (
+                        <div className="h-1 mt-1.5 bg-zinc-700 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full ${usage.used_tokens >= usage.quota ? 'bg-red-500' : 'bg-zinc-400'}`}
+                                style={{ width: `${Math.min(100, (usage.used_tokens / usage.quota) * 100)}%` }}
+                            />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="p-4 border-t border-zinc-700 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <div className="w-8 h-8 bg-zinc-700 rounded-lg flex items-center justify-center text-sm text-white">
+                        {user.username[0].toUpperCase()}
+                    </div>
+                    <span className="text-zinc-400 text-sm">{user.username}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                    {user.role === 'admin' && (
+                        <button
+                            onClick={() => onOpenAdmin()}
+                            className="text-zinc-500 text-xs hover:text-white transition-colors"
+                        >
+                            Admin
+                        </button>
+                    )}
+                    <button
+                        onClick={onLogout}
+                        className="text-zinc-500 text-xs hover:text-white transition-colors"
+                    >
+                        Logout
+                    </button>
+                </div>
+            </div>
+        </aside>
+    );
+}
@@ -0,0 +1,113 @@
+export interface User {
+    id: number;
+    username: string;
+    role: 'user' | 'admin';
+}
+
+export interface Session {
+    id: number;
+    user_id: number;
+    title: string;
+    model: string | null;
+    system_prompt: string | null;
+    temperature: number | null;
+    max_tokens: number | null;
+    retrieval_enabled: boolean;
+    folder_id: number | null;
+    // Pinned chats are listed first, archived ones only in the archive view
+    pinned: boolean;
+    archived: boolean;
+    tag_ids: number[];
+    created_at: string;
+}
+
+// A user-defined folder or tag for organizing chats
+export interface Label {
+    id: number;
+    name: string;
+}
+
+// Matched terms in `snippet` are wrapped in \uE000 ... \uE001
+export interface SearchResult {
+    session_id: number;
+    session_title: string;
+    message_id: number | null;
+    role: 'user' | 'assistant' | null;
+    snippet: string;
+    rank: number;
+    created_at: string;
+}
+
+// Today's token usage; quota is null when unlimited
+export interface Usage {
+    quota: number | null;
+    used_tokens: number;
+    resets_at: string;
+}
+
+// A reusable prompt run from the composer as /<name>; variables are its {{placeholders}}
+export interface PromptTemplate {
+    id: number;
+    name: string;
+    description: string;
+    content: string;
+    variables: string[];
+    updated_at: string;
+}
+
+// A file sent with a user message (message_id is null until the message is sent)
+export interface Attachment {
+    id: number;
+    message_id: number | null;
+    filename: string;
+    mime_type: string;
+    size: number;
+}
+
+// A library excerpt an assistant reply drew on; index matches the [n] markers in the reply
+export interface Citation {
+    index: number;
+    document_id: number;
+    filename: string;
+    chunk_index: number;
+    excerpt: string;
+}
+
+// A tool the assistant called while writing a reply; error is set when the tool failed
+export interface ToolCall {
+    id: string;
+    name: string;
+    args: unknown;
+    result: unknown;
+    error: string | null;
+}
+
+// A link to a read-only copy of a chat, frozen when the link was created
+export interface ShareLink {
+    id: number;
+    token: string;
+    session_id: number;
+    title: string;
+    message_count: number;
+    expires_at: string | null;
+    created_at: string;
+}
+
+export interface Message {
+    id: number;
+    session_id: number;
+    parent_id: number | null;
+    role: 'user' | 'assistant' | 'tool';
+    content: string;
+    created_at: string;
+    // Ids of this message and its alternatives (edits / regenerations), oldest first
+    sibling_ids?: number[];
+    attachments?: Attachment[];
+    citations?: Citation[] | null;
+    tool_call?: ToolCall | null;
+    // Replies that were stopped or failed can be retried; error says why one failed
+    status?: 'complete' | 'interrupted' | 'failed';
+    error?: string | null;
+    // The model that wrote an assistant reply
+    model?: string | null;
+}
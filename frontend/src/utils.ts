@@ -0,0 +1,16 @@
+// API host; empty when the frontend is served by the backend (or proxied by Vite)
+export const API_URL = import.meta.env.VITE_API_URL || '';
+
+export function formatTime(dateString: string): string {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: true
+    });
+}
+
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}